@@ -1,5 +1,14 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import FullWidthNumberField from './FullWidthInputField'; // 作成したコンポーネントをインポート
+import type { FullWidthNumberFieldHandle } from './FullWidthInputField';
+import FullWidthNumberRangeField from './FullWidthNumberRangeField';
+import FullWidthNumberGrid from './FullWidthNumberGrid';
+import type { NumberGridColumn } from './FullWidthNumberGrid';
+import FullWidthPostalCodeField from './FullWidthPostalCodeField';
+import FullWidthPhoneNumberField from './FullWidthPhoneNumberField';
+import FullWidthEraDateField from './FullWidthEraDateField';
+import FullWidthNumberDisplay from './FullWidthNumberDisplay';
+import type { NumberRangeValue } from './numberValue';
 import { Box, Typography, Button, Container } from '@mui/material';
 import { createTheme, ThemeProvider, CssBaseline } from '@mui/material';
 
@@ -37,6 +46,13 @@ const darkTheme = createTheme({
   },
 });
 
+// 予算表の列 (Excel からの複数セルの貼り付けに対応)
+const budgetColumns: NumberGridColumn[] = [
+  { key: 'plan', label: '予算', fieldProps: { allowDecimal: false, negativeStyle: 'triangle' } },
+  { key: 'actual', label: '実績', fieldProps: { allowDecimal: false, negativeStyle: 'triangle' } },
+  { key: 'rate', label: '達成率 (%)', fieldProps: { decimalPlaces: 1, min: 0 } },
+];
+
 function App() {
   // ユーザー設定やシステム設定に基づいてテーマを切り替えるロジック
   const [isDarkMode, setIsDarkMode] = useState(true); // 例: 初期はダークモード
@@ -46,17 +62,37 @@ function App() {
   const [price, setPrice] = useState<string>('');
   const [quantity, setQuantity] = useState<string>('');
   const [controlledAmount, setControlledAmount] = useState<string>('123');
-  const [age, setAge] = useState<string>('');
+  const [age, setAge] = useState<number | null>(null); // valueType="number" で数値として受け取る
+  const [budget, setBudget] = useState<string>('');
+  const [budgetTable, setBudgetTable] = useState<string[][]>([
+    ['', '', ''],
+    ['', '', ''],
+    ['', '', ''],
+  ]);
+  const [priceRange, setPriceRange] = useState<NumberRangeValue<'number'>>({ from: null, to: null });
+  const [postalCode, setPostalCode] = useState<string>('');
+  const [phoneNumber, setPhoneNumber] = useState<string>('');
+  const [deliveryDate, setDeliveryDate] = useState<string>(''); // ISO形式 (YYYY-MM-DD)
+  // ref からフォーカスやバリデーションを実行する例
+  const priceFieldRef = useRef<FullWidthNumberFieldHandle>(null);
+
+  const handleValidatePrice = async () => {
+    const validity = await priceFieldRef.current?.validate();
+    if (validity?.status === 'invalid') {
+      priceFieldRef.current?.focus();
+    }
+  };
 
   const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     alert(
-      `送信された値:\n価格: ${price}\n数量: ${quantity}\n制御された値: ${controlledAmount}\n年齢: ${age}`
+      `送信された値:\n価格: ${price}\n数量: ${quantity}\n制御された値: ${controlledAmount}\n年齢: ${age}\n予算: ${budget}`
     );
     console.log('価格:', price);
     console.log('数量:', quantity);
     console.log('制御された値:', controlledAmount);
     console.log('年齢:', age);
+    console.log('予算:', budget);
   };
 
   return (
@@ -81,6 +117,7 @@ function App() {
 
           {/* 価格入力フィールド */}
           <FullWidthNumberField
+            ref={priceFieldRef}
             label="価格"
             value={price}
             onValueChange={setPrice} // 変換後の値を受け取るカスタムプロパティ
@@ -89,8 +126,9 @@ function App() {
             max={1_000_000} // タイプセーフな数値リテラル
             required
             name="price"
+            allowExpressions // "=1200*1.1" のような計算式も入力できる
             placeholder="全角で価格を入力"
-            helperText="0から1,000,000の範囲"
+            helperText="0から1,000,000の範囲 (=で計算式)"
           />
           {/* 数量入力フィールド */}
           <FullWidthNumberField
@@ -99,6 +137,7 @@ function App() {
             onChange={(e) => setQuantity(e.target.value)} // TextField標準のonChangeも使用可能
             min={1}
             allowDecimal={false} // 整数のみ
+            strictInput // 数字以外の文字は入力できないようにする
             required
             name="quantity"
             sx={{ width: '15ch' }}
@@ -108,6 +147,7 @@ function App() {
           <FullWidthNumberField
             label="年齢"
             value={age}
+            valueType="number"
             onValueChange={setAge}
             min={0}
             max={120}
@@ -116,6 +156,56 @@ function App() {
             placeholder="全角で年齢を入力"
             helperText="0から120の整数を入力"
           />
+          {/* 漢数字での入力を受け付ける例 */}
+          <FullWidthNumberField
+            label="予算"
+            value={budget}
+            onValueChange={setBudget}
+            allowKanjiNumerals
+            suffix="円"
+            negativeStyle="triangle" // 負数は △1,234 のように表示
+            name="budget"
+            placeholder="例: 一万二千五百、1.5万"
+            helperText="漢数字や万・億・兆、△1,234円 のような表記も入力できます"
+          />
+          {/* 非制御モードの例 (フォーム送信時は hidden input の正規化した値が送られる) */}
+          <FullWidthNumberField
+            label="送料"
+            defaultValue={500}
+            name="shipping"
+            min={0}
+            allowDecimal={false}
+            helperText="defaultValue で初期値を指定"
+          />
+          {/* 範囲を入力する例 (下限 > 上限の場合はフォーカスアウトで入れ替える) */}
+          <FullWidthNumberRangeField
+            label="価格帯"
+            value={priceRange}
+            valueType="number"
+            onValueChange={setPriceRange}
+            fromLabel="価格 (下限)"
+            toLabel="価格 (上限)"
+            min={0}
+            allowDecimal={false}
+            autoSwap
+          />
+          {/* 表計算風のグリッドの例 */}
+          <FullWidthNumberGrid
+            label="予算表"
+            columns={budgetColumns}
+            value={budgetTable}
+            onValueChange={setBudgetTable}
+            rowLabels={['4月', '5月', '6月']}
+          />
+          {/* 郵便番号・電話番号・和暦の日付の入力欄の例 */}
+          <FullWidthPostalCodeField value={postalCode} onValueChange={setPostalCode} />
+          <FullWidthPhoneNumberField value={phoneNumber} onValueChange={setPhoneNumber} />
+          <FullWidthEraDateField
+            label="配達日"
+            value={deliveryDate}
+            onValueChange={setDeliveryDate}
+            helperText="「R6.1.2」のようにも入力できます"
+          />
           {/* 外部から値を制御する例 */}
           <FullWidthNumberField
             label="制御された金額"
@@ -136,6 +226,12 @@ function App() {
           <Button variant="outlined" onClick={() => setControlledAmount('')} sx={{ ml: 1 }}>
             クリア
           </Button>
+          <Button variant="outlined" onClick={handleValidatePrice} sx={{ mt: 1 }}>
+            価格を検証
+          </Button>
+          <Button variant="outlined" onClick={() => priceFieldRef.current?.reset()} sx={{ mt: 1, ml: 1 }}>
+            価格をリセット
+          </Button>
         </Box>
 
         <Box sx={{ mt: 3 }}>
@@ -157,7 +253,20 @@ function App() {
           **制御された金額**: `{controlledAmount || '未入力'}` (型: {typeof controlledAmount})
         </Typography>
         <Typography variant="body1">
-          **年齢**: `{age || '未入力'}` (型: {typeof age})
+          **年齢**: `{age ?? '未入力'}` (型: {typeof age})
+        </Typography>
+        <Typography variant="body1">
+          **予算**: `{budget || '未入力'}` (型: {typeof budget})
+        </Typography>
+        <Typography variant="body1">
+          {/* 入力欄と同じ表記で表示する例 */}
+          **予算 (表示用)**: <FullWidthNumberDisplay value={budget} suffix="円" negativeStyle="triangle" emptyText="未入力" />
+        </Typography>
+        <Typography variant="body1">
+          **価格帯**: `{priceRange.from ?? '下限なし'}` 〜 `{priceRange.to ?? '上限なし'}`
+        </Typography>
+        <Typography variant="body1">
+          **郵便番号**: `{postalCode || '未入力'}` / **電話番号**: `{phoneNumber || '未入力'}` / **配達日**: `{deliveryDate || '未入力'}`
         </Typography>
       </Container>
     </ThemeProvider>
@@ -0,0 +1,63 @@
+import { useCallback } from 'react';
+import { useField, useFormikContext } from 'formik';
+import type { FieldValidator } from 'formik';
+import FullWidthNumberField from './FullWidthInputField';
+import type { FullWidthNumberFieldProps } from './FullWidthInputField';
+import type { NumberValueType } from './numberValue';
+import { useFormValidity } from './useFormValidity';
+
+// Formik 用の FullWidthNumberField の型定義
+// 値は Formik の values から取得するため、FullWidthNumberField からは除外します。
+type FormikFullWidthNumberFieldProps<T extends NumberValueType> =
+  Omit<FullWidthNumberFieldProps<T>, 'value' | 'defaultValue' | 'onValueChange' | 'name'> & {
+    /** Formik の values のフィールド名 */
+    name: string;
+    /** フィールド単位の追加のバリデーション (組み込みのバリデーションを通過した場合に実行) */
+    validate?: FieldValidator;
+  };
+
+// Formik (useField) と連携する FullWidthNumberField
+// - 正規化した値 (valueType の型) を setFieldValue で渡す
+// - 組み込みと独自のバリデーションの結果をフィールド単位のバリデーションとしてフォームのエラーに反映する (未操作のフィールドも送信時に検証する)
+// - フォーカスアウトで touched にし、フォームのエラーは touched または送信後に表示する
+const FormikFullWidthNumberField = <T extends NumberValueType = 'string'>({
+  name,
+  validate,
+  onBlur,
+  onValidityChange,
+  helperText,
+  ...fieldProps
+}: FormikFullWidthNumberFieldProps<T>) => {
+  const { handleValidityChange, setFieldHandle, getValidationError } = useFormValidity(onValidityChange);
+  const validateField = useCallback(async (value: unknown) => {
+    const fieldError = await getValidationError();
+    if (fieldError !== undefined) return fieldError;
+    return validate ? validate(value) : undefined;
+  }, [getValidationError, validate]);
+
+  const [field, meta, helpers] = useField({ name, validate: validateField });
+  const { submitCount } = useFormikContext();
+
+  const showFormError = meta.error !== undefined && (meta.touched || submitCount > 0);
+
+  return (
+    <FullWidthNumberField<T>
+      {...fieldProps}
+      ref={setFieldHandle}
+      name={field.name}
+      value={(field.value ?? null) as FullWidthNumberFieldProps<T>['value']}
+      onValueChange={(value) => { void helpers.setValue(value); }}
+      onBlur={(event) => {
+        void helpers.setTouched(true);
+        if (onBlur) {
+          onBlur(event);
+        }
+      }}
+      onValidityChange={handleValidityChange}
+      helperText={showFormError ? meta.error : helperText}
+      {...(showFormError && { error: true })}
+    />
+  );
+};
+
+export default FormikFullWidthNumberField;
@@ -0,0 +1,48 @@
+import React, { useMemo } from 'react';
+import FullWidthTextField from './FullWidthTextField';
+import type { FullWidthTextFieldProps, FullWidthTextFormat } from './FullWidthTextField';
+import { useNumberFieldMessages } from './messagesContext';
+import type { DateDisplayStyle } from './eraDate';
+import { formatJapaneseDate, parseJapaneseDate } from './eraDate';
+import { toHalfWidthText } from './textNormalizer';
+
+// FullWidthEraDateField の Props の型定義
+// 値は ISO 形式 (YYYY-MM-DD) の日付の文字列で、入力途中や解釈できない場合は空文字列です。
+interface FullWidthEraDateFieldProps extends Omit<FullWidthTextFieldProps, 'textFormat' | 'invalidMessage'> {
+  /**
+   * 確定した日付の表示形式。'era' は「令和6年1月2日」、'iso' は「2024-01-02」。デフォルトは'era'。
+   */
+  displayStyle?: DateDisplayStyle;
+}
+
+// 和暦・西暦の日付の入力欄
+// 「令和６年１月２日」「R6.1.2」「2024/1/2」のような入力を受け付け、ISO 形式の日付を通知する。
+const FullWidthEraDateField: React.FC<FullWidthEraDateFieldProps> = ({
+  displayStyle = 'era',
+  label,
+  placeholder,
+  messages: messageOverrides,
+  ...props
+}) => {
+  const messages = useNumberFieldMessages(messageOverrides);
+
+  // 入力中は全角英数字を半角にそろえるだけにし、日付への変換はフォーカスアウト時に表示に反映する
+  const dateFormat = useMemo<FullWidthTextFormat>(() => ({
+    normalize: toHalfWidthText,
+    parse: parseJapaneseDate,
+    format: (value) => formatJapaneseDate(value, displayStyle),
+  }), [displayStyle]);
+
+  return (
+    <FullWidthTextField
+      label={label ?? messages.dateLabel({})}
+      placeholder={placeholder ?? '令和6年1月2日'}
+      {...props}
+      messages={messageOverrides}
+      textFormat={dateFormat}
+      invalidMessage={messages.invalidDate}
+    />
+  );
+};
+
+export default FullWidthEraDateField;
@@ -1,104 +1,187 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, {
+  forwardRef, useState, useCallback, useEffect, useId, useImperativeHandle, useLayoutEffect, useMemo, useRef,
+} from 'react';
 import type { TextFieldProps } from '@mui/material';
-import { TextField } from '@mui/material';
-
-// 入力値を正規化する関数 (全角→半角、カンマ除去)
-// 変換ロジックを、入力途中の可能性を考慮し、最低限の文字除去に留める。
-// 全角数字を半角に、そしてそれ以外の文字はそのまま保持（ただしカンマは除去）。
-// マイナス記号や小数点もそのまま残すように変更します。
-const normalizeAndRemoveCommas = (input: string | number | null | undefined): string => {
-  if (input === undefined || input === null) return '';
-  let str = String(input);
-  // 全角数字を半角に変換
-  str = str.replace(/[０-９]/g, (s) =>
-    String.fromCharCode(s.charCodeAt(0) - 0xFEE0)
-  );
-  // 全角ピリオドを半角ピリオドに変換
-  str = str.replace(/．/g, '.');
-  // 全角マイナスを半角マイナスに変換
-  str = str.replace(/ー/g, '-');
-  // カンマを除去
-  str = str.replace(/,/g, '');
-  return str;
-  // ここで数字、小数点、マイナス記号以外の文字を除去しない。
-  // それはバリデーションの役割。
+import { Box, IconButton, InputAdornment, TextField } from '@mui/material';
+import type { NumberAffixes } from './numberNormalizer';
+import {
+  normalizeAndRemoveCommas, hasKanjiNumerals, isKanjiNumeralChar, parseKanjiNumber, stripAffixes,
+} from './numberNormalizer';
+import type { RoundingMode } from './decimal';
+import {
+  addDecimal, compareDecimal, multiplyDecimal, parseDecimal, roundDecimal, subtractDecimal,
+} from './decimal';
+import type { NumberLocaleSymbols } from './numberLocale';
+import { DEFAULT_NUMBER_LOCALE, getNumberLocaleSymbols } from './numberLocale';
+import type { NumberFieldMessageParams, NumberFieldMessages } from './messages';
+import { getExpressionErrorMessage, getKanjiErrorMessage } from './messages';
+import { useNumberFieldMessages } from './messagesContext';
+import type { NumberFieldValidator, NumberFieldValidity } from './validators';
+import { useCustomValidation } from './useCustomValidation';
+import { useComposition } from './useComposition';
+import { findCaretPosition } from './caretPosition';
+import type { NumberFieldValue, NumberValueOf, NumberValueType } from './numberValue';
+import { toDecimalString, toFieldValue, toNumberValue } from './numberValue';
+import type { NegativeStyle } from './numberDisplay';
+import { applyNegativeStyle } from './numberDisplay';
+import { VISUALLY_HIDDEN_STYLE } from './visuallyHidden';
+import { evaluateExpression, isExpressionInput } from './expression';
+import { formatNumberWithCommas, scaleFromPercent, scaleToPercent } from './numberFormat';
+
+// 値と min/max の境界を比較する関数。値が小さければ負、等しければ0、大きければ正を返す。
+// exactDecimal の場合は Number を経由せず10進数文字列のまま比較する。
+const compareToBound = (value: string, bound: number | string, exactDecimal: boolean): number =>
+  exactDecimal ? compareDecimal(value, String(bound)) : Math.sign(Number(value) - Number(bound));
+
+// 親から渡された値を内部の値に変換する関数 (percent の場合は100倍して百分率にする)
+const toInternalValue = (value: string | number | bigint | null | undefined, percent: boolean): string => {
+  const normalized = normalizeAndRemoveCommas(value);
+  return percent ? scaleToPercent(normalized) : normalized;
 };
 
-// 数値をカンマ区切り文字列にフォーマットする関数
-const formatNumberWithCommas = (
-  value: string,
-  allowDecimal: boolean,
-  decimalPlaces?: number
-): string => {
-  if (value === null || value === undefined) return '';
-  const valStr = String(value);
-
-  if (valStr === '' || valStr === '-' || valStr === '.' || valStr === '-.') return valStr;
-
-  const num = Number(valStr);
-
-  if (isNaN(num)) {
-    // Number() で NaN になるが、部分的にフォーマット可能な場合 (例: "123invalid")
-    // 基本的にはバリデーションでエラーになるはず。
-    const parts = valStr.split('.');
-    const integerPart = parts[0];
-    const potentialDecimalPart = parts.length > 1 ? parts[1] : undefined;
-    const intNumCheck = Number(integerPart);
-    if (integerPart !== '' && !isNaN(intNumCheck)) {
-      let formattedInt = Number(integerPart).toLocaleString('en-US', { maximumFractionDigits: 0 });
-      if (allowDecimal && potentialDecimalPart !== undefined) {
-        return `${formattedInt}.${potentialDecimalPart}`;
-      }
-      return formattedInt;
-    }
-    return valStr; // フォーマット不能ならそのまま
-  }
-
-  // 有効な数値の場合
-  const options: Intl.NumberFormatOptions = {};
-  if (!allowDecimal) {
-    options.minimumFractionDigits = 0;
-    options.maximumFractionDigits = 0;
-  } else {
-    if (decimalPlaces !== undefined) {
-      options.minimumFractionDigits = decimalPlaces;
-      options.maximumFractionDigits = decimalPlaces;
-    } else {
-      const decimalPartStr = valStr.split('.')[1];
-      if (decimalPartStr) {
-        options.minimumFractionDigits = decimalPartStr.length;
-        options.maximumFractionDigits = decimalPartStr.length;
-      } else {
-        options.minimumFractionDigits = 0;
-        options.maximumFractionDigits = 0;
-      }
-    }
-  }
-  return num.toLocaleString('en-US', options);
+// 内部の値を親に通知する値に変換する関数 (percent の場合は1/100にする)
+// 入力途中の値はそのまま返す。
+const toExternalValue = (value: string, percent: boolean): string =>
+  percent ? scaleFromPercent(value) : value;
+
+// 入力文字列のキャレットより前にある「意味のある文字」(数字、小数点、符号) の数を数える関数
+// 正規化で除去・変換される文字 (カンマ、空白、全角数字、通貨記号など) を考慮するため、
+// キャレットより前の部分文字列を正規化した長さを用いる。
+const countSignificantCharsBeforeCaret = (
+  input: string,
+  caret: number,
+  symbols: NumberLocaleSymbols,
+  affixes: NumberAffixes
+): number =>
+  normalizeAndRemoveCommas(stripAffixes(input.slice(0, caret), affixes), symbols).length;
+
+// 厳格な入力モードで受け付ける値かどうか (正規化済みの値が数値、または入力途中の数値であること)
+// 漢数字モードでは漢数字・位の文字も受け付け、表記の誤りは通常どおりエラーとして表示する。
+const isAcceptableStrictInput = (normalized: string, allowDecimal: boolean, allowKanjiNumerals: boolean): boolean => {
+  const pattern = allowDecimal ? /^-?\d*(\.\d*)?$/ : /^-?\d*$/;
+  if (pattern.test(normalized)) return true;
+  return allowKanjiNumerals && Array.from(normalized).every((ch) => /[\d.-]/.test(ch) || isKanjiNumeralChar(ch));
 };
 
+// 入力に変換される文字 (全角数字、漢数字、全角の記号など) が含まれるかどうか
+// 表示に使う桁区切り文字・小数点・負数の記号と、入力に含まれる接頭辞・接尾辞、
+// 入力中はそのまま保持する漢数字は除いて判定する。
+const hasConvertedCharacters = (input: string, affixes: NumberAffixes, symbols: NumberLocaleSymbols): boolean =>
+  Array.from(stripAffixes(input, affixes)).some((ch) =>
+    ch !== symbols.group && ch !== symbols.decimal && !isKanjiNumeralChar(ch) && !/[\x20-\x7E△▲]/.test(ch)
+  );
+
+// 厳格な入力モードで入力を受け付けなかったことを表示する時間 (ミリ秒)
+const REJECTED_INPUT_INDICATION_MS = 1500;
+
+// decimalPlaces が未指定の場合に、計算式の結果 (割り算の商など) を丸める小数点以下の桁数
+const EXPRESSION_RESULT_PLACES = 10;
+
+/**
+ * ref から FullWidthNumberField を操作するためのメソッド。
+ */
+export interface FullWidthNumberFieldHandle<T extends NumberValueType = 'string'> {
+  /** 入力欄にフォーカスする */
+  focus: () => void;
+  /** 入力欄の文字列をすべて選択する */
+  select: () => void;
+  /** 現在の値でバリデーションを即時に実行し、エラーを表示する。独自のバリデーションの完了後に検証状態で解決する */
+  validate: () => Promise<NumberFieldValidity>;
+  /** 値を defaultValue (value を指定した場合はその値) に戻し、エラー表示を消す */
+  reset: (value?: string | number | bigint | null) => void;
+  /** 現在の値を valueType の型で返す */
+  getValue: () => NumberFieldValue<T>;
+  /** IMEで変換中かどうか */
+  isComposing: () => boolean;
+}
+
 // FullWidthNumberFieldに独自のPropsを追加するための型定義
 // TextFieldPropsをOmitすることで、TextFieldのvalueとonChangeが
 // カスタムプロパティによって上書きされるのを防ぎつつ、他のTextFieldのPropsを継承します。
-interface FullWidthNumberFieldProps extends Omit<TextFieldProps, 'value' | 'onChange' | 'type'> {
+// 型パラメータ T は valueType に対応し、onValueChange / onValueCommit の引数の型を決めます。
+export interface FullWidthNumberFieldProps<T extends NumberValueType = 'string'>
+  extends Omit<TextFieldProps, 'value' | 'defaultValue' | 'onChange' | 'type' | 'ref'> {
   /**
    * コンポーネントが制御する現在の値。半角数字の文字列として扱われます。
    * 外部から初期値を設定したり、値を更新したりするために使用します。
    */
-  value?: string | number | null;
+  value?: string | number | bigint | null;
+  /**
+   * 非制御モード (value を指定しない場合) の初期値。
+   * 非制御モードで name を指定すると、正規化した値 (カンマなしの半角数字) を hidden input で送信します。
+   */
+  defaultValue?: string | number | bigint | null;
+  /**
+   * onValueChange / onValueCommit に渡す値の型。デフォルトは'string'。
+   * 'number' | 'bigint' | 'decimal-string' の場合、未入力や入力途中 ("-", "." など) の値は null になります。
+   */
+  valueType?: T;
   /**
    * 値が変更されたときに呼び出されるコールバック関数。
-   * 引数には半角数字に変換された文字列値が渡されます。
+   * valueTypeが'string'の場合、引数には半角数字に変換された文字列値 (入力途中の値を含む) が渡されます。
+   */
+  onValueChange?: (value: NumberFieldValue<T>) => void;
+  /**
+   * 完全で有効な数値が確定されたとき (フォーカスアウト時) にだけ呼び出されるコールバック関数。
+   * 丸め・範囲外の値の切り詰め後の値が valueType の型で渡されます。同じ値では繰り返し呼び出されません。
+   * validators を指定した場合は、独自のバリデーションでも有効と判定された後に呼び出されます。
+   */
+  onValueCommit?: (value: NumberValueOf<T>) => void;
+  /**
+   * ArrowUp/ArrowDownキーや増減ボタンで値を増減させる幅。デフォルトは1。
+   */
+  step?: number | string;
+  /**
+   * PageUp/PageDownキー、Shift+ArrowUp/ArrowDownキーで値を増減させる幅。デフォルトはstepの10倍。
+   */
+  largeStep?: number | string;
+  /**
+   * 増減ボタンを入力欄の右端に表示するかどうか。デフォルトはfalse。
+   */
+  showStepButtons?: boolean;
+  /**
+   * 入力欄の先頭に表示する接頭辞 (例: "¥")。入力や貼り付けに含まれる同じ文字は除去されます。
+   */
+  prefix?: string;
+  /**
+   * 入力欄の末尾に表示する接尾辞・単位 (例: "円", "kg", "個")。入力や貼り付けに含まれる同じ文字は除去されます。
+   */
+  suffix?: string;
+  /**
+   * パーセント表示にするかどうか。デフォルトはfalse。
+   * trueの場合、値を100倍して "%" を付けて表示し (0.125 → 12.5%)、親には1/100の値を通知します。
+   * min, max, decimalPlaces, step は表示上の百分率の値で指定します。
    */
-  onValueChange?: (value: string) => void;
+  percent?: boolean;
+  /**
+   * 負数の表記。'minus' (-1,234)、'triangle' (△1,234)、'filled-triangle' (▲1,234)、
+   * 'parentheses' ((1,234)) のいずれか。デフォルトは'minus'。
+   * 入力ではどの表記もマイナスとして受け付けます。
+   */
+  negativeStyle?: NegativeStyle;
+  /**
+   * 厳格な入力モードにするかどうか。デフォルトはfalse。
+   * trueの場合、数値として受け付けられない文字の入力・貼り付け・ドロップを入力前に取り消し、
+   * エラーの代わりに補助テキストで一時的に通知します。IMEによる全角数字の変換はそのまま行えます。
+   */
+  strictInput?: boolean;
+  /**
+   * 計算式の入力を許可するかどうか。デフォルトはfalse。
+   * trueの場合、"=" (全角 "＝" も可) で始まる入力を四則演算の式 (例: =1200*1.1、＝（１０００＋５００）×８％) として、
+   * Enter またはフォーカスアウト時に評価します。結果は decimalPlaces の桁数 (未指定の場合は小数点以下10桁) に
+   * roundingMode (未指定の場合は四捨五入) で丸め、通常の入力と同様に範囲のチェックを行います。
+   */
+  allowExpressions?: boolean;
   /**
    * 許容される数値の最小値。
+   * exactDecimalがtrueの場合、2^53を超える値は文字列で指定してください。
    */
-  min?: number;
+  min?: number | string;
   /**
    * 許容される数値の最大値。
+   * exactDecimalがtrueの場合、2^53を超える値は文字列で指定してください。
    */
-  max?: number;
+  max?: number | string;
   /**
    * 小数点の入力を許可するかどうか。デフォルトはtrue。
    * falseの場合、整数のみが許可されます。
@@ -108,6 +191,60 @@ interface FullWidthNumberFieldProps extends Omit<TextFieldProps, 'value' | 'onCh
    * 許可される小数点以下の最大桁数。allowDecimalがtrueの場合にのみ有効。
    */
   decimalPlaces?: number;
+  /**
+   * フォーカスアウト時に小数点以下をdecimalPlacesの桁数に丸める方法。
+   * 'half-up' (四捨五入)、'half-even' (銀行家の丸め)、'floor' (切り捨て)、'ceil' (切り上げ)、'truncate' (0方向への切り捨て)。
+   * 指定した場合、入力中は桁数超過をエラーにせず、フォーカスアウト時に10進数のまま丸めます。
+   * 未指定の場合は従来どおり、桁数超過はエラーとなり、不足分のみ0埋めされます。
+   */
+  roundingMode?: RoundingMode;
+  /**
+   * min/maxの範囲外の値に対する扱い。デフォルトは'error'。
+   * 'clamp'の場合、フォーカスアウト時にminまたはmaxの値に切り詰めます。
+   */
+  onOutOfRange?: 'error' | 'clamp';
+  /**
+   * 漢数字や万/億/兆の位を含む表記 (例: 「一万二千五百」「1.5万」) を受け付けるかどうか。デフォルトはfalse。
+   * trueの場合、入力中は漢数字のまま表示し、貼り付け時・フォーカスアウト時に半角数字へ変換されます。
+   */
+  allowKanjiNumerals?: boolean;
+  /**
+   * Numberを経由せず、10進数文字列のまま比較・丸め・桁区切りを行うかどうか。デフォルトはfalse。
+   * trueの場合、2^53を超える整数や長い小数部も誤差なく扱われ、丸めは10進数での四捨五入になります。
+   */
+  exactDecimal?: boolean;
+  /**
+   * 表示と入力の数値表記に使うロケール (例: 'de-DE', 'en-IN')。デフォルトは'en-US'。
+   * 桁区切り文字、小数点、桁区切りの間隔 (ラク・クロールなど) がロケールに従います。
+   * onValueChangeに渡される値は、ロケールによらず "." を小数点とする半角数字の文字列です。
+   */
+  locale?: string;
+  /**
+   * このフィールドだけで使うメッセージ。NumberFieldMessagesProviderのメッセージを部分的に上書きします。
+   * 各メッセージは min, max, decimalPlaces, 対象の値などをパラメータとして受け取ります。
+   */
+  messages?: Partial<NumberFieldMessages>;
+  /**
+   * 独自のバリデーション関数の配列 (刻み幅、除外値、別フィールドとの比較、サーバーでの確認など)。
+   * 組み込みのバリデーションを通過した値に対して実行され、同期・非同期 (Promise) のどちらも使えます。
+   * createStepValidator などの生成関数も利用できます。
+   */
+  validators?: NumberFieldValidator[];
+  /**
+   * 入力中に独自のバリデーションを実行するまでの待ち時間 (ミリ秒)。デフォルトは300。
+   * フォーカスアウト時や親からの値の変更時は待たずに実行されます。
+   */
+  validationDebounceMs?: number;
+  /**
+   * validators が参照する外部の値 (別フィールドの値など)。
+   * これらが変わったときに、現在の値でバリデーションを再実行します。
+   */
+  validationDeps?: React.DependencyList;
+  /**
+   * 組み込みと独自のバリデーションを合わせた検証状態 (pending/valid/invalid と理由) が
+   * 変わったときに呼び出されるコールバック関数。
+   */
+  onValidityChange?: (validity: NumberFieldValidity) => void;
   /**
    * TextFieldの標準onChangeイベントハンドラ。
    */
@@ -118,41 +255,156 @@ interface FullWidthNumberFieldProps extends Omit<TextFieldProps, 'value' | 'onCh
   onBlur?: TextFieldProps['onBlur']
 }
 
-const FullWidthNumberField: React.FC<FullWidthNumberFieldProps> = ({
+const FullWidthNumberFieldInner = <T extends NumberValueType = 'string'>({
   value: controlledValue,
+  defaultValue,
+  valueType = 'string' as T,
   onValueChange,
+  onValueCommit,
+  step = 1,
+  largeStep,
+  showStepButtons = false,
+  prefix,
+  suffix,
+  percent = false,
+  negativeStyle = 'minus',
+  strictInput = false,
+  allowExpressions = false,
   min,
   max,
   allowDecimal = true, // デフォルトで小数を許可
   decimalPlaces,
-  label = '数値',
-  placeholder = '全角数字も入力できます',
+  roundingMode,
+  onOutOfRange = 'error',
+  allowKanjiNumerals = false,
+  exactDecimal = false,
+  locale = DEFAULT_NUMBER_LOCALE,
+  messages: messageOverrides,
+  validators,
+  validationDebounceMs = 300,
+  validationDeps,
+  onValidityChange,
+  label,
+  placeholder,
   onChange: muiOnChange,
   onBlur: muiOnBlur, // muiOnBlur を props から受け取る
   helperText: externalHelperText,
+  inputRef: externalInputRef,
+  onKeyDown: muiOnKeyDown,
+  name,
   ...restProps
-}) => {
+}: FullWidthNumberFieldProps<T>, ref: React.ForwardedRef<FullWidthNumberFieldHandle<T>>) => {
+  // value を指定しない場合は非制御モードとして、defaultValue を初期値に内部で値を管理する
+  const isControlled = controlledValue !== undefined;
+
   // `internalValue`は常に半角確定後の値、またはIMEの未確定文字列（composition中のみ）を保持
   const [internalValue, setInternalValue] = useState<string>(() => {
-    return normalizeAndRemoveCommas(controlledValue); // 初期値も正規化
+    return toInternalValue(isControlled ? controlledValue : defaultValue, percent); // 初期値も正規化
   });
   const [error, setError] = useState<boolean>(false);
   const [internalHelperText, setInternalHelperText] = useState<string>('');
 
   // IMEのcomposition（変換中）状態を追跡するフラグ
-  const isComposing = useRef(false);
+  const { isComposing, getCompositionHandlers } = useComposition();
+  // IMEの変換を始める前の値 (厳格な入力モードで確定した文字列を受け付けなかった場合に戻す)
+  const valueBeforeComposition = useRef('');
+
+  // スクリーンリーダーに読み上げる通知 (変換・丸め・エラーの理由)
+  const [announcement, setAnnouncement] = useState('');
+  // aria-describedby で補助テキストを関連付けるため、id が指定されていない場合は生成する
+  const generatedId = useId();
+  const fieldId = restProps.id ?? generatedId;
+
+  // 厳格な入力モードで受け付けなかった文字 (一時的に補助テキストで通知する)
+  const [rejectedCharacter, setRejectedCharacter] = useState<string | null>(null);
+  const rejectedInputTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  // Provider とフィールドごとの上書きをマージしたメッセージ
+  const messages = useNumberFieldMessages(messageOverrides);
+
+  // ロケールの桁区切り文字と小数点 (ユーザー入力の解釈と表示に使用)
+  const localeSymbols = getNumberLocaleSymbols(locale);
+
+  // 入力欄の前後に表示する接頭辞・接尾辞 (percent の場合、接尾辞の既定は "%")
+  const effectiveSuffix = suffix ?? (percent ? '%' : undefined);
+  const affixes = useMemo<NumberAffixes>(() => ({ prefix, suffix: effectiveSuffix }), [prefix, effectiveSuffix]);
+
+  // 厳格な入力モードで受け付けられない入力を通知する (一定時間後に通知を消す)
+  // 通知には入力された文字列のうち、最初に受け付けられない文字を示す。
+  const rejectInput = useCallback((text: string) => {
+    const character = Array.from(text).find((ch) => !isAcceptableStrictInput(
+      normalizeAndRemoveCommas(stripAffixes(ch, affixes), localeSymbols), allowDecimal, allowKanjiNumerals
+    )) ?? text;
+    clearTimeout(rejectedInputTimer.current);
+    setRejectedCharacter(character);
+    rejectedInputTimer.current = setTimeout(() => setRejectedCharacter(null), REJECTED_INPUT_INDICATION_MS);
+  }, [affixes, localeSymbols, allowDecimal, allowKanjiNumerals]);
+
+  // アンマウント時に通知のタイマーを止める
+  useEffect(() => () => clearTimeout(rejectedInputTimer.current), []);
+
+  // input要素への参照 (キャレット位置の制御に使用)
+  const inputElementRef = useRef<HTMLInputElement | null>(null);
+  // 再レンダリング後に復元するキャレット位置 (意味のある文字の数で保持)
+  const pendingCaret = useRef<number | null>(null);
+
+  // 厳格な入力モードでは、受け付けられない文字の入力・貼り付け・ドロップを beforeinput で取り消す
+  // 入力後の値 (選択範囲を置き換えた値) を正規化して判定する。IMEの変換中の入力は確定時に判定する。
+  useEffect(() => {
+    const element = inputElementRef.current;
+    if (!strictInput || element === null) return;
+    const handleBeforeInput = (event: InputEvent) => {
+      if (
+        event.isComposing || isComposing.current ||
+        !event.inputType.startsWith('insert') || event.inputType === 'insertCompositionText'
+      ) return;
+      const data = event.data ?? event.dataTransfer?.getData('text/plain') ?? '';
+      const { selectionStart, selectionEnd, value } = element;
+      const nextValue = value.slice(0, selectionStart ?? value.length) + data + value.slice(selectionEnd ?? value.length);
+      // 計算式モードの式は確定時に評価するため、ここでは判定しない
+      if (allowExpressions && isExpressionInput(nextValue)) return;
+      const normalized = normalizeAndRemoveCommas(stripAffixes(nextValue, affixes), localeSymbols);
+      if (!isAcceptableStrictInput(normalized, allowDecimal, allowKanjiNumerals)) {
+        event.preventDefault();
+        rejectInput(data);
+      }
+    };
+    element.addEventListener('beforeinput', handleBeforeInput);
+    return () => element.removeEventListener('beforeinput', handleBeforeInput);
+  }, [strictInput, affixes, localeSymbols, allowDecimal, allowKanjiNumerals, allowExpressions, rejectInput, isComposing]);
+
+  // 外部から渡された inputRef と内部の参照の両方に input 要素を設定する
+  const handleInputRef = useCallback((element: HTMLInputElement | null) => {
+    inputElementRef.current = element;
+    if (typeof externalInputRef === 'function') {
+      externalInputRef(element);
+    } else if (externalInputRef) {
+      (externalInputRef as React.RefObject<HTMLInputElement | null>).current = element;
+    }
+  }, [externalInputRef]);
+
+  // 最後に確定した値 (同じ値で onValueCommit を繰り返し通知しないため)
+  // 初期値や親から渡された値も確定済みとして扱い、編集せずにフォーカスアウトしても通知しない
+  const lastCommittedValue = useRef<string | null>(toDecimalString(internalValue));
 
   // controlledValue (親からの値) の変更を監視し、内部状態を同期
   useEffect(() => {
     // IME変換中ではない場合、親から渡された値を正規化して内部状態を更新
     // Composition中はIMEがDOMを制御するため、更新を控える
-    if (!isComposing.current) {
-      const normalized = normalizeAndRemoveCommas(controlledValue);
+    // 非制御モードでは親から値が渡されないため、同期しない
+    if (isControlled && !isComposing.current) {
+      const normalized = toInternalValue(controlledValue, percent);
       // 現在のinternalValueと異なる場合のみ更新
-      if (normalized !== internalValue) {
+      // valueTypeが'string'以外の場合は数値として比較し、入力途中の "-" と null のように
+      // 親に通知した値と同じものは上書きしない (percent の場合も通知値は正規形になるため数値として比較する)
+      const isSameValue = valueType === 'string' && !percent
+        ? normalized === internalValue
+        : toDecimalString(normalized) === toDecimalString(internalValue);
+      if (!isSameValue) {
           setInternalValue(normalized);
+          lastCommittedValue.current = toDecimalString(normalized);
           // 値が変更されたらバリデーションも再実行
-          validateAndSetError(normalized);
+          validate(normalized, 0);
       }
     }
   }, [controlledValue]); // internalValue を依存配列から外すことで無限ループを避ける
@@ -161,21 +413,30 @@ const FullWidthNumberField: React.FC<FullWidthNumberFieldProps> = ({
   const validateAndSetError = useCallback((currentValue: string) => {
     let hasError: boolean = false;
     let currentHelperText: string = '';
+    // メッセージに渡すパラメータ
+    const messageParams: NumberFieldMessageParams = { value: currentValue, min, max, decimalPlaces, allowDecimal };
 
     // 必須入力チェック
     if (restProps.required && currentValue === '') {
       hasError = true;
-      currentHelperText = '入力は必須です。';
+      currentHelperText = messages.required(messageParams);
     } else if (currentValue !== '') {
       // 半角数字、小数点、先頭のマイナス記号のみを許容する正規表現
       const patternStr = allowDecimal ? `^-?\\d*(\\.\\d*)?$` : `^-?\\d*$`;
       const isValidNumericFormat = new RegExp(patternStr).test(currentValue);
       
       if (!isValidNumericFormat) {
-        hasError = true;
-        currentHelperText = allowDecimal
-          ? '有効な半角数字、小数点、マイナス記号のみが許容されます。'
-          : '有効な半角整数、マイナス記号のみが許容されます。';
+        const kanjiResult = allowKanjiNumerals && hasKanjiNumerals(currentValue)
+          ? parseKanjiNumber(currentValue)
+          : null;
+        // 解析できる漢数字は確定時に半角数字へ変換するため、入力途中としてエラーにしない
+        if (!kanjiResult?.ok) {
+          hasError = true;
+          // 漢数字の解析エラーであれば、その理由を優先して表示する
+          currentHelperText = kanjiResult
+            ? getKanjiErrorMessage(messages, kanjiResult.reason)({ ...messageParams, character: kanjiResult.character })
+            : messages.invalidFormat(messageParams);
+        }
       } else {
         // 入力途中として許容するパターン: "-", ".", "-." (allowDecimal時のみ)
         const isInputInProgress = currentValue === '-' ||
@@ -188,24 +449,25 @@ const FullWidthNumberField: React.FC<FullWidthNumberFieldProps> = ({
           if (isNaN(numValue)) {
             // このパスは isValidNumericFormat のチェックにより通常は到達しないはず
             hasError = true;
-            currentHelperText = '有効な半角数字を入力してください。';
+            currentHelperText = messages.invalidNumber(messageParams);
           } else { // !isNaN(numValue) の場合
-            if (allowDecimal && decimalPlaces !== undefined) {
+            // roundingMode が指定されている場合、桁数超過はフォーカスアウト時に丸めるためエラーにしない
+            if (allowDecimal && decimalPlaces !== undefined && roundingMode === undefined) {
               const parts = currentValue.split('.');
               if (parts.length > 1 && parts[1].length > decimalPlaces) {
                 hasError = true;
-                currentHelperText = `小数点以下は${decimalPlaces}桁までです。`;
+                currentHelperText = messages.tooManyDecimalPlaces(messageParams);
               }
             }
             // 桁数エラーがない場合のみ範囲チェック
             if (!hasError) {
-              if (min !== undefined && numValue < min) {
+              if (min !== undefined && compareToBound(currentValue, min, exactDecimal) < 0) {
                   hasError = true;
-                  currentHelperText = `${min}以上の値を入力してください。`;
+                  currentHelperText = messages.belowMin(messageParams);
               }
-              if (max !== undefined && numValue > max) {
+              if (max !== undefined && compareToBound(currentValue, max, exactDecimal) > 0) {
                   hasError = true;
-                  currentHelperText = `${max}以下の値を入力してください。`;
+                  currentHelperText = messages.aboveMax(messageParams);
               }
             }
           }
@@ -214,40 +476,152 @@ const FullWidthNumberField: React.FC<FullWidthNumberFieldProps> = ({
     }
     setError(hasError);
     setInternalHelperText(currentHelperText);
-    return hasError; // バリデーション結果を返す
-  }, [min, max, restProps.required, allowDecimal, decimalPlaces]);
+    return hasError ? currentHelperText : null; // エラーメッセージ (エラーがなければ null) を返す
+  }, [min, max, restProps.required, allowDecimal, decimalPlaces, roundingMode, allowKanjiNumerals, exactDecimal, messages]);
+
+  // 独自のバリデーションの結果をエラー表示に反映する
+  const handleCustomValidationResult = useCallback((reasons: string[]) => {
+    setError(reasons.length > 0);
+    setInternalHelperText(reasons[0] ?? '');
+  }, []);
+
+  const { runValidation, cancelValidation, resetValidation } = useCustomValidation({
+    validators,
+    messages,
+    allowDecimal,
+    onValidityChange,
+    onResult: handleCustomValidationResult,
+  });
+
+  // 組み込みのバリデーションを実行し、通過した場合は独自のバリデーションを debounceMs 後に実行する
+  // 独自のバリデーションの完了後に検証状態で解決する Promise を返す
+  const validate = useCallback((currentValue: string, debounceMs: number) =>
+    runValidation(currentValue, validateAndSetError(currentValue), debounceMs),
+  [runValidation, validateAndSetError]);
+
+  // 親に値の変更を valueType の型で通知する
+  const notifyValueChange = useCallback((value: string) => {
+    if (onValueChange) {
+      onValueChange(toFieldValue(toExternalValue(value, percent), valueType));
+    }
+  }, [onValueChange, valueType, percent]);
+
+  // validationDeps (別フィールドの値など) が変わったら、現在の値でバリデーションを再実行する
+  const previousValidationDeps = useRef(validationDeps);
+  useEffect(() => {
+    const previousDeps = previousValidationDeps.current;
+    previousValidationDeps.current = validationDeps;
+    if (previousDeps === undefined || validationDeps === undefined || isComposing.current) return;
+    const changed = previousDeps.length !== validationDeps.length ||
+      previousDeps.some((dep, index) => !Object.is(dep, validationDeps[index]));
+    if (changed) {
+      validate(internalValue, 0);
+    }
+  });
+
+  // 漢数字モードの場合、値に含まれる漢数字を半角数字に変換する (フォーカスアウト時と貼り付け時)
+  // 解析できない場合は元の値をそのまま返し、エラー表示はバリデーションに任せる。
+  const convertKanjiNumerals = useCallback((value: string): string => {
+    if (!allowKanjiNumerals || !hasKanjiNumerals(value)) return value;
+    const result = parseKanjiNumber(value);
+    return result.ok ? result.value : value;
+  }, [allowKanjiNumerals]);
+
+  // フォーカスアウト時に確定する値を求める (小数点以下の丸めと、範囲外の値の切り詰め)
+  // 入力途中の値や数値として不正な値はそのまま返し、エラー表示はバリデーションに任せる。
+  const commitValue = useCallback((value: string): string => {
+    const parts = parseDecimal(value);
+    if (parts === null || (!allowDecimal && value.includes('.'))) return value;
+
+    // 小数点以下の桁数をそろえる
+    // roundingMode が未指定の場合、桁数超過はエラーのまま残し、不足分の0埋めのみ行う
+    const roundToDecimalPlaces = (target: string): string => {
+      if (!allowDecimal || decimalPlaces === undefined) return target;
+      if (roundingMode !== undefined) return roundDecimal(target, decimalPlaces, roundingMode);
+      if ((target.split('.')[1] ?? '').length > decimalPlaces) return target;
+      // exactDecimal の場合は10進数のまま丸め、toFixed の2進数誤差を避ける
+      return exactDecimal ? roundDecimal(target, decimalPlaces) : Number(target).toFixed(decimalPlaces);
+    };
+
+    let committedValue = roundToDecimalPlaces(value);
+    if (onOutOfRange === 'clamp') {
+      if (min !== undefined && compareToBound(committedValue, min, exactDecimal) < 0) {
+        committedValue = roundToDecimalPlaces(normalizeAndRemoveCommas(min));
+      } else if (max !== undefined && compareToBound(committedValue, max, exactDecimal) > 0) {
+        committedValue = roundToDecimalPlaces(normalizeAndRemoveCommas(max));
+      }
+    }
+    return committedValue;
+  }, [min, max, allowDecimal, decimalPlaces, roundingMode, onOutOfRange, exactDecimal]);
+
+  // input要素のonBlurイベントハンドラ
+  // 入力を確定する (フォーカスアウト時と、計算式を Enter で評価するときに実行する)
+  const commitInput = useCallback(() => {
+    let sourceValue = internalValue;
+    // 計算式は評価した結果を確定する。解析エラーの場合は位置を示してエラーを表示し、式はそのまま残す
+    if (allowExpressions && isExpressionInput(internalValue)) {
+      const result = evaluateExpression(internalValue, localeSymbols);
+      if (!result.ok) {
+        const message = getExpressionErrorMessage(messages, result.reason)({
+          value: internalValue, min, max, decimalPlaces, allowDecimal,
+          character: result.character, position: result.position + 1,
+        });
+        setError(true);
+        setInternalHelperText(message);
+        runValidation(internalValue, message, 0);
+        return;
+      }
+      // 割り算の商などの長い小数は、decimalPlaces (整数のみの場合は0桁、未指定の場合は EXPRESSION_RESULT_PLACES 桁) に
+      // 丸めてから確定する。roundingMode が未指定の場合も、桁数超過のエラーにせず四捨五入する
+      const places = allowDecimal ? decimalPlaces ?? EXPRESSION_RESULT_PLACES : 0;
+      const rounded = roundDecimal(result.value, places, roundingMode ?? 'half-up');
+      sourceValue = toDecimalString(rounded) ?? rounded;
+    }
+    // 漢数字の変換、丸め、範囲外の値の切り詰めを行った値を確定値として通知する
+    const convertedValue = convertKanjiNumerals(sourceValue);
+    const committedValue = commitValue(convertedValue);
+    if (committedValue !== internalValue) {
+      setInternalValue(committedValue);
+      notifyValueChange(committedValue);
+      // 値そのものが変わった場合 (小数点以下の0埋めのみの場合を除く) は読み上げる
+      // 漢数字を変換しただけの場合は変換、丸めや切り詰めを行った場合は調整として読み上げる
+      if (compareDecimal(committedValue, internalValue) !== 0) {
+        const announcementMessage = convertedValue !== sourceValue && compareDecimal(committedValue, convertedValue) === 0
+          ? messages.convertedAnnouncement
+          : messages.adjustedAnnouncement;
+        setAnnouncement(announcementMessage({ value: committedValue, min, max, decimalPlaces, allowDecimal }));
+      }
+    }
+    // 確定値でバリデーションを再実行し、エラー状態を最新にする
+    const validity = validate(committedValue, 0);
+
+    // 完全な数値であれば、独自のバリデーション (validators) を含めて有効と確定した後に確定値として通知する
+    // 小数点以下の0埋めだけの違いは同じ値とみなす
+    const typedValue = toNumberValue(toExternalValue(committedValue, percent), valueType);
+    const committedDecimal = toDecimalString(committedValue);
+    if (typedValue === null || committedDecimal === lastCommittedValue.current) return;
+    void validity.then(({ status }) => {
+      // エラーの場合と、検証中に新しい値で実行し直された場合 ('pending' で解決される) は通知しない
+      if (status !== 'valid' || committedDecimal === lastCommittedValue.current) return;
+      lastCommittedValue.current = committedDecimal;
+      if (onValueCommit) {
+        onValueCommit(typedValue);
+      }
+    });
+  }, [
+    internalValue, notifyValueChange, onValueCommit, valueType, percent, validate, convertKanjiNumerals, commitValue,
+    messages, min, max, decimalPlaces, allowDecimal, allowExpressions, runValidation, localeSymbols, roundingMode,
+  ]);
 
-    // input要素のonBlurイベントハンドラ
   const handleInternalBlur = useCallback((event: React.FocusEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     if (!isComposing.current) {
-      const currentValue = internalValue;
-      // まず現在の値でバリデーションを再実行し、エラー状態を最新にする
-      const hasErrorFromValidation = validateAndSetError(currentValue);
-
-      // エラーがなく、かつ小数が許可されていて、小数点以下の桁数指定がある場合のみ丸め処理を行う
-      // allowDecimal === false の場合は、ここでの丸め処理は行わない。
-      // バリデーションでエラーになっていれば、そのエラー状態が維持される。
-      if (!hasErrorFromValidation && allowDecimal && decimalPlaces !== undefined) {
-        const numValue = Number(currentValue);
-        // 有効な数値の場合のみ丸める (入力途中の "-", "." は除外)
-        if (!isNaN(numValue) && currentValue !== '' && currentValue !== '-' && currentValue !== '.') {
-          const roundedValue = numValue.toFixed(decimalPlaces);
-          if (roundedValue !== currentValue) {
-            setInternalValue(roundedValue);
-            // 丸め後の値で再度バリデーション（主に表示のため、エラーは発生しない想定）
-            validateAndSetError(roundedValue);
-            if (onValueChange) {
-              onValueChange(roundedValue);
-            }
-          }
-        }
-      }
+      commitInput();
     }
     // 外部のonBlurプロパティがあれば呼び出す
     if (muiOnBlur) {
       muiOnBlur(event);
     }
-  }, [internalValue, onValueChange, validateAndSetError, allowDecimal, decimalPlaces, muiOnBlur]);
+  }, [commitInput, muiOnBlur, isComposing]);
 
   // input要素のonChangeイベントハンドラ
   const handleInternalChange = useCallback((event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -265,15 +639,48 @@ const FullWidthNumberField: React.FC<FullWidthNumberFieldProps> = ({
       }
     } else {
       // composition中ではない場合（直接入力、コピペ、composition確定後など）
+      // 計算式モードで "=" から始まる入力は、確定 (Enter またはフォーカスアウト) まで式のまま保持する
+      if (allowExpressions && isExpressionInput(inputValue)) {
+        pendingCaret.current = null;
+        setInternalValue(inputValue);
+        setError(false);
+        setInternalHelperText('');
+        cancelValidation();
+        if (muiOnChange) {
+          muiOnChange(event);
+        }
+        return;
+      }
       // 入力値を正規化 (全角->半角、カンマ除去)
-      const normalizedValue = normalizeAndRemoveCommas(inputValue);
+      // 入力や貼り付けに含まれる接頭辞・接尾辞 ("¥", "円" など) は除去する
+      const plainValue = normalizeAndRemoveCommas(stripAffixes(inputValue, affixes), localeSymbols);
+      // 厳格な入力モードでは、受け付けられない値 (IMEで確定した文字列など) を反映せず、入力前の値に戻す
+      if (strictInput && !isAcceptableStrictInput(plainValue, allowDecimal, allowKanjiNumerals)) {
+        pendingCaret.current = null;
+        setInternalValue(event.type === 'compositionend' ? valueBeforeComposition.current : internalValue);
+        rejectInput(inputValue);
+        return;
+      }
+      // 漢数字は「一万」に続けて「二千五百」を確定できるよう入力中はそのまま保持し、フォーカスアウト時に変換する
+      // 貼り付けた場合は入力が完了しているため、その場で変換する
+      const isPaste = (event.nativeEvent as Partial<InputEvent>).inputType === 'insertFromPaste';
+      const normalizedValue = isPaste ? convertKanjiNumerals(plainValue) : plainValue;
+
+      // キャレットを同じ数字の直後に保つため、キャレットより前の意味のある文字数を記録する
+      // 漢数字の変換で文字列全体が置き換わった場合は、キャレットを末尾に置く
+      const caret = event.target.selectionStart;
+      pendingCaret.current = caret !== null && normalizedValue === plainValue
+        ? countSignificantCharsBeforeCaret(inputValue, caret, localeSymbols, affixes)
+        : null;
       setInternalValue(normalizedValue);
-      validateAndSetError(normalizedValue); // バリデーションを実行
+      validate(normalizedValue, validationDebounceMs); // バリデーションを実行
+      // 全角数字や貼り付けた漢数字などを変換した場合は、変換後の値を読み上げる
+      if (normalizedValue !== '' && (normalizedValue !== plainValue || hasConvertedCharacters(inputValue, affixes, localeSymbols))) {
+        setAnnouncement(messages.convertedAnnouncement({ value: normalizedValue, min, max, decimalPlaces, allowDecimal }));
+      }
 
       // 外部に変換後の値を通知
-      if (onValueChange) {
-          onValueChange(normalizedValue);
-      }
+      notifyValueChange(normalizedValue);
       // TextFieldの標準onChangeも呼び出す
       if (muiOnChange) {
           muiOnChange({
@@ -285,43 +692,269 @@ const FullWidthNumberField: React.FC<FullWidthNumberFieldProps> = ({
           });
       }
     }
-  }, [onValueChange, muiOnChange, validateAndSetError]);
+  }, [
+    notifyValueChange, muiOnChange, validate, validationDebounceMs, convertKanjiNumerals, localeSymbols, affixes,
+    strictInput, allowDecimal, allowKanjiNumerals, internalValue, rejectInput, messages, min, max, decimalPlaces,
+    allowExpressions, cancelValidation, isComposing,
+  ]);
 
   // 表示用の値。IME入力中は internalValue (未確定文字列、カンマ含む可能性あり) をそのまま使い、
   // エラーが発生している場合も、フォーマットせずに元の入力値を表示する
   // それ以外の場合は internalValue (カンマなし確定文字列) をフォーマットする。
-  const displayValue = (isComposing.current || error)
-    ? internalValue // IME入力中またはエラー時はそのまま表示
-    : formatNumberWithCommas(internalValue, allowDecimal, decimalPlaces);
+  // エラー時も小数点はロケールの表記に戻し、再入力時に桁区切りと誤解釈されないようにする。
+  const displayValue = isComposing.current || (allowExpressions && isExpressionInput(internalValue))
+    ? internalValue // IME入力中と計算式はそのまま表示
+    : error
+      ? internalValue.split('.').join(localeSymbols.decimal)
+      : applyNegativeStyle(
+        formatNumberWithCommas(internalValue, allowDecimal, decimalPlaces, exactDecimal, locale),
+        negativeStyle
+      );
+
+  // 正規化・フォーマットで表示文字列が変わった後、記録しておいたキャレット位置を復元する
+  useLayoutEffect(() => {
+    const element = inputElementRef.current;
+    const significantCount = pendingCaret.current;
+    pendingCaret.current = null;
+    if (element === null || significantCount === null || document.activeElement !== element) return;
+    const position = findCaretPosition(element.value, significantCount, localeSymbols.group);
+    element.setSelectionRange(position, position);
+  });
+
+  // キーボードや増減ボタンで確定した値を反映する (通知とバリデーションは即時に行う)
+  const applySteppedValue = useCallback((nextValue: string) => {
+    pendingCaret.current = null;
+    setInternalValue(nextValue);
+    notifyValueChange(nextValue);
+    validate(nextValue, 0);
+  }, [notifyValueChange, validate]);
+
+  // 読み取り専用の場合は、キー操作や増減ボタンで値を変更しない
+  const readOnly = Boolean(restProps.InputProps?.readOnly || restProps.inputProps?.readOnly);
+
+  // 現在の値を amount だけ増減させる (direction: 1 で増加、-1 で減少)
+  // 結果は decimalPlaces (整数のみの場合は0桁) に丸め、min/max の範囲に収める。
+  // 未入力・入力途中の値は0から増減し、数値として不正な値の場合は何もしない。
+  const stepBy = useCallback((amount: number | string, direction: 1 | -1) => {
+    if (isComposing.current || restProps.disabled || readOnly) return;
+    const baseValue = /^-?\.?$/.test(internalValue) ? '0' : internalValue;
+    const normalizedAmount = normalizeAndRemoveCommas(amount);
+    let nextValue = direction > 0
+      ? addDecimal(baseValue, normalizedAmount)
+      : subtractDecimal(baseValue, normalizedAmount);
+    if (nextValue === null) return;
+
+    const places = allowDecimal ? decimalPlaces : 0;
+    if (places !== undefined) {
+      nextValue = roundDecimal(nextValue, places, roundingMode);
+    }
+    if (min !== undefined && compareToBound(nextValue, min, exactDecimal) < 0) {
+      nextValue = normalizeAndRemoveCommas(min);
+    } else if (max !== undefined && compareToBound(nextValue, max, exactDecimal) > 0) {
+      nextValue = normalizeAndRemoveCommas(max);
+    }
+    applySteppedValue(nextValue);
+  }, [
+    internalValue, allowDecimal, decimalPlaces, roundingMode, min, max, exactDecimal, restProps.disabled, readOnly,
+    applySteppedValue, isComposing,
+  ]);
+
+  // largeStep が未指定の場合は step の10倍
+  const effectiveLargeStep = largeStep ?? multiplyDecimal(normalizeAndRemoveCommas(step), '10') ?? '10';
+
+  // Backspace/Deleteで桁区切り文字や、会計表記の負数の末尾の閉じ括弧を削除しようとした場合、隣の数字を削除する
+  // キャレットをその文字の反対側に移動させてから、ブラウザ標準の削除処理に任せる。
+  // ArrowUp/ArrowDown (Shift併用で largeStep)、PageUp/PageDown で値を増減させ、
+  // Home/End で min/max に移動する。IMEの変換中はこれらのキー操作を処理しない。
+  // 外部の onKeyDown を先に呼び出し、そこで preventDefault された場合も処理しない (グリッドでのセル移動など)。
+  const handleInternalKeyDown = useCallback((event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (muiOnKeyDown) {
+      muiOnKeyDown(event);
+    }
+    const element = inputElementRef.current;
+    if (
+      element !== null && !event.defaultPrevented &&
+      !isComposing.current && !event.nativeEvent.isComposing && event.target === element
+    ) {
+      // 計算式は Enter で評価する (フォームの送信は行わない)
+      if (event.key === 'Enter' && allowExpressions && isExpressionInput(internalValue)) {
+        event.preventDefault();
+        commitInput();
+        return;
+      }
+      const stepKeys: Record<string, () => void> = {
+        ArrowUp: () => stepBy(event.shiftKey ? effectiveLargeStep : step, 1),
+        ArrowDown: () => stepBy(event.shiftKey ? effectiveLargeStep : step, -1),
+        PageUp: () => stepBy(effectiveLargeStep, 1),
+        PageDown: () => stepBy(effectiveLargeStep, -1),
+      };
+      if (min !== undefined && !restProps.disabled && !readOnly) {
+        stepKeys.Home = () => applySteppedValue(normalizeAndRemoveCommas(min));
+      }
+      if (max !== undefined && !restProps.disabled && !readOnly) {
+        stepKeys.End = () => applySteppedValue(normalizeAndRemoveCommas(max));
+      }
+      const handleStepKey = stepKeys[event.key];
+      if (handleStepKey) {
+        event.preventDefault();
+        handleStepKey();
+      }
 
-  const defaultHelperText = allowDecimal ? '全角数字も半角に変換されます。' : '全角整数も半角に変換されます。';
+      const { selectionStart, selectionEnd, value } = element;
+      if (selectionStart !== null && selectionStart === selectionEnd) {
+        // 末尾の閉じ括弧を削除しても、同じ負数に正規化されて閉じ括弧が戻るため、桁区切り文字と同様に読み飛ばす
+        const isSkippedChar = (index: number) =>
+          value[index] === localeSymbols.group || (value[index] === ')' && index === value.length - 1);
+        if (event.key === 'Backspace' && isSkippedChar(selectionStart - 1)) {
+          element.setSelectionRange(selectionStart - 1, selectionStart - 1);
+        } else if (event.key === 'Delete' && isSkippedChar(selectionStart)) {
+          element.setSelectionRange(selectionStart + 1, selectionStart + 1);
+        }
+      }
+    }
+  }, [
+    muiOnKeyDown, localeSymbols, stepBy, applySteppedValue, step, effectiveLargeStep, min, max, restProps.disabled,
+    readOnly, allowExpressions, internalValue, commitInput, isComposing,
+  ]);
+
+  // 値を defaultValue (または指定した値) に戻し、エラー表示と実行中のバリデーションを取り消す
+  const reset = useCallback((value?: string | number | bigint | null) => {
+    const nextValue = toInternalValue(value !== undefined ? value : defaultValue, percent);
+    resetValidation();
+    pendingCaret.current = null;
+    lastCommittedValue.current = toDecimalString(nextValue);
+    setInternalValue(nextValue);
+    setError(false);
+    setInternalHelperText('');
+    notifyValueChange(nextValue);
+  }, [defaultValue, percent, resetValidation, notifyValueChange]);
+
+  // 非制御モードでは、親の form のリセット (type="reset" のボタンなど) で defaultValue に戻す
+  useEffect(() => {
+    const form = inputElementRef.current?.form;
+    if (isControlled || !form) return;
+    const handleReset = () => reset();
+    form.addEventListener('reset', handleReset);
+    return () => form.removeEventListener('reset', handleReset);
+  }, [isControlled, reset]);
+
+  useImperativeHandle(ref, () => ({
+    focus: () => inputElementRef.current?.focus(),
+    select: () => inputElementRef.current?.select(),
+    validate: () => runValidation(internalValue, validateAndSetError(internalValue), 0),
+    reset,
+    getValue: () => toFieldValue(toExternalValue(internalValue, percent), valueType),
+    isComposing: () => isComposing.current,
+  }), [internalValue, percent, valueType, runValidation, validateAndSetError, reset, isComposing]);
+
+  // エラーになった場合は、その理由を読み上げる
+  useEffect(() => {
+    if (error && internalHelperText !== '') {
+      setAnnouncement(internalHelperText);
+    }
+  }, [error, internalHelperText]);
+
+  // 支援技術には桁区切りのない数値を伝える (入力途中や不正な値の場合は aria-valuenow を省略する)
+  const numericValue = parseDecimal(internalValue) !== null ? Number(internalValue) : undefined;
+  const valueText = internalValue !== '' ? `${prefix ?? ''}${internalValue}${effectiveSuffix ?? ''}` : undefined;
+
+  const displayMessageParams: NumberFieldMessageParams = { value: internalValue, min, max, decimalPlaces, allowDecimal };
+  const defaultHelperText = messages.defaultHelperText(displayMessageParams);
 
   return (
-    <TextField
-      label={label}
-      placeholder={placeholder}
-      value={displayValue} // フォーマットされた値を表示
-      onChange={handleInternalChange}
-      onBlur={handleInternalBlur} // Blurイベントハンドラを追加
-      type="text" // 全角文字を受け入れるために'text'型を使用
-      error={error}
-      helperText={error ? internalHelperText : (externalHelperText || defaultHelperText)}
-      // IME compositionイベントハンドラ
-      onCompositionStart={() => { isComposing.current = true; }}
-      onCompositionEnd={(event) => {
-        isComposing.current = false; // composition終了フラグをfalseに
-
-        // compositionが終了した際に、最終的な確定値を処理
-        // handleInternalChange を再度呼び出すことで、確定後の値での変換・バリデーション・通知を行う
-        // この時、event.target.value はIMEによって確定された最終的な文字列になっている
-        handleInternalChange(event as unknown as React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>);
-      }}
-      {...restProps}
-      inputProps={{
-        ...restProps.inputProps
-      }}
-    />
+    <>
+      <TextField
+        label={label ?? messages.defaultLabel(displayMessageParams)}
+        placeholder={placeholder ?? messages.defaultPlaceholder(displayMessageParams)}
+        value={displayValue} // フォーマットされた値を表示
+        onChange={handleInternalChange}
+        onBlur={handleInternalBlur} // Blurイベントハンドラを追加
+        onKeyDown={handleInternalKeyDown}
+        inputRef={handleInputRef}
+        id={fieldId}
+        name={isControlled ? name : undefined}
+        type="text" // 全角文字を受け入れるために'text'型を使用
+        error={error}
+        helperText={rejectedCharacter !== null
+          // 受け付けなかった入力の通知 (エラー表示にはせず、スクリーンリーダーにも読み上げる)
+          ? <span role="alert">{messages.inputRejected({ ...displayMessageParams, character: rejectedCharacter })}</span>
+          : error ? internalHelperText : (externalHelperText || defaultHelperText)}
+        // IME compositionイベントハンドラ
+        // compositionが終了した際は handleInternalChange を再度呼び出し、確定後の値での変換・バリデーション・通知を行う
+        {...getCompositionHandlers({
+          onStart: () => {
+            valueBeforeComposition.current = internalValue;
+          },
+          onCommit: handleInternalChange,
+        })}
+        {...restProps}
+        InputProps={{
+          ...restProps.InputProps,
+          ...(prefix && {
+            startAdornment: <InputAdornment position="start">{prefix}</InputAdornment>,
+          }),
+          // 接尾辞と増減ボタン (フォーカスを入力欄に残すため、mousedownの既定動作を抑止する)
+          ...((effectiveSuffix || showStepButtons) && {
+            endAdornment: (
+              <InputAdornment position="end">
+                {effectiveSuffix}
+                {showStepButtons && (
+                  <Box sx={{ display: 'flex', flexDirection: 'column', ml: effectiveSuffix ? 0.5 : 0 }}>
+                    <IconButton
+                      size="small"
+                      tabIndex={-1}
+                      aria-label={messages.incrementLabel(displayMessageParams)}
+                      disabled={restProps.disabled || readOnly}
+                      onMouseDown={(event) => event.preventDefault()}
+                      onClick={() => stepBy(step, 1)}
+                      sx={{ p: 0, fontSize: '0.6rem', lineHeight: 1 }}
+                    >
+                      ▲
+                    </IconButton>
+                    <IconButton
+                      size="small"
+                      tabIndex={-1}
+                      aria-label={messages.decrementLabel(displayMessageParams)}
+                      disabled={restProps.disabled || readOnly}
+                      onMouseDown={(event) => event.preventDefault()}
+                      onClick={() => stepBy(step, -1)}
+                      sx={{ p: 0, fontSize: '0.6rem', lineHeight: 1 }}
+                    >
+                      ▼
+                    </IconButton>
+                  </Box>
+                )}
+              </InputAdornment>
+            ),
+          }),
+        }}
+        inputProps={{
+          // モバイルで数字用のキーボードを表示し、矢印キーで増減できる spinbutton として値を伝える
+          // (aria-invalid と、補助テキストへの aria-describedby は TextField が error と id から設定する)
+          inputMode: allowDecimal ? 'decimal' : 'numeric',
+          role: 'spinbutton',
+          'aria-valuenow': numericValue,
+          'aria-valuetext': valueText,
+          'aria-valuemin': min !== undefined ? Number(normalizeAndRemoveCommas(min)) : undefined,
+          'aria-valuemax': max !== undefined ? Number(normalizeAndRemoveCommas(max)) : undefined,
+          ...restProps.inputProps
+        }}
+      />
+      {/* 変換・丸め・エラーの理由を読み上げるライブリージョン */}
+      <span role="status" aria-live="polite" style={VISUALLY_HIDDEN_STYLE}>
+        {announcement}
+      </span>
+      {/* 非制御モードでは、フォームの送信用に正規化した値を hidden input に持たせる */}
+      {!isControlled && name !== undefined && (
+        <input type="hidden" name={name} value={toExternalValue(internalValue, percent)} disabled={restProps.disabled} />
+      )}
+    </>
   );
 };
 
+// forwardRef は型パラメータを引き継がないため、valueType に応じて型が決まるよう型付けし直す
+const FullWidthNumberField = forwardRef(FullWidthNumberFieldInner) as <T extends NumberValueType = 'string'>(
+  props: FullWidthNumberFieldProps<T> & React.RefAttributes<FullWidthNumberFieldHandle<T>>
+) => React.ReactElement | null;
+
 export default FullWidthNumberField;
\ No newline at end of file
@@ -0,0 +1,50 @@
+import React from 'react';
+import type { TypographyProps } from '@mui/material';
+import { Typography } from '@mui/material';
+import type { NumberFormatOptions } from './numberFormat';
+import { formatNumber } from './numberFormat';
+
+// FullWidthNumberDisplay の Props の型定義
+// フォーマットのオプションに FullWidthNumberField と同じ値を指定すると、入力欄で確定した値と同じ表記になります。
+// 接頭辞・接尾辞は入力欄の装飾と同じく、負数の表記の外側に付きます (例: "¥△1,234")。
+interface FullWidthNumberDisplayProps
+  extends NumberFormatOptions, Omit<TypographyProps<'span'>, 'children' | keyof NumberFormatOptions> {
+  /**
+   * 表示する値。全角数字やカンマを含む文字列も受け付けます。
+   */
+  value: string | number | bigint | null | undefined;
+  /**
+   * 値が未入力 (null・空文字列) の場合に表示する内容。デフォルトは何も表示しない。
+   */
+  emptyText?: React.ReactNode;
+}
+
+// FullWidthNumberField と同じ規則で数値を表示する読み取り専用のコンポーネント
+// 表・集計・確認画面など、入力された値を表示する場面で使う。
+const FullWidthNumberDisplay: React.FC<FullWidthNumberDisplayProps> = ({
+  value,
+  emptyText,
+  allowDecimal,
+  decimalPlaces,
+  roundingMode,
+  exactDecimal,
+  locale,
+  useGrouping,
+  prefix,
+  suffix,
+  percent,
+  negativeStyle,
+  ...typographyProps
+}) => {
+  const formatted = formatNumber(value, {
+    allowDecimal, decimalPlaces, roundingMode, exactDecimal, locale, useGrouping, prefix, suffix, percent, negativeStyle,
+  });
+
+  return (
+    <Typography component="span" variant="inherit" {...typographyProps}>
+      {formatted !== '' ? formatted : emptyText}
+    </Typography>
+  );
+};
+
+export default FullWidthNumberDisplay;
@@ -0,0 +1,232 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Box, Link, Table, TableBody, TableCell, TableHead, TableRow, Typography } from '@mui/material';
+import FullWidthNumberField from './FullWidthInputField';
+import type { FullWidthNumberFieldHandle, FullWidthNumberFieldProps } from './FullWidthInputField';
+import { normalizeAndRemoveCommas, stripAffixes } from './numberNormalizer';
+import { DEFAULT_NUMBER_LOCALE, getNumberLocaleSymbols } from './numberLocale';
+import { parseNumber } from './numberFormat';
+import type { NumberFieldValidity } from './validators';
+import { useNumberFieldMessages } from './messagesContext';
+import { VISUALLY_HIDDEN_STYLE } from './visuallyHidden';
+
+/**
+ * グリッドの列の定義。
+ */
+export interface NumberGridColumn {
+  key: string;
+  /** 列の見出し */
+  label: string;
+  /** この列のセルに適用する FullWidthNumberField の Props (min, max, decimalPlaces, validators など) */
+  fieldProps?: Omit<FullWidthNumberFieldProps, 'value' | 'defaultValue' | 'onValueChange' | 'label' | 'name'>;
+}
+
+/**
+ * エラーのあるセル。row / column は0始まりの位置です。
+ */
+export interface NumberGridCellError {
+  row: number;
+  column: number;
+  message: string;
+}
+
+interface FullWidthNumberGridProps {
+  columns: NumberGridColumn[];
+  /**
+   * セルの値 (行 × 列)。半角数字に正規化された文字列として扱われます。
+   */
+  value: string[][];
+  /**
+   * セルの値が変更されたときに呼び出されるコールバック関数。複数セルの貼り付けでは1回だけ呼び出されます。
+   */
+  onValueChange: (value: string[][]) => void;
+  /**
+   * 行の見出し。省略した場合は「1行目」のような見出しを表示します。
+   */
+  rowLabels?: string[];
+  /**
+   * エラーのあるセルの一覧が変わったときに呼び出されるコールバック関数。
+   */
+  onErrorsChange?: (errors: NumberGridCellError[]) => void;
+  /**
+   * 表のアクセシブルな名前。
+   */
+  label?: string;
+}
+
+// クリップボードのテキスト (Excel などのタブ区切り・改行区切り) をセルの文字列の2次元配列に変換する
+// 末尾の改行は無視し、ダブルクォートで囲まれたセルはクォートを外す。
+const parseClipboardCells = (text: string): string[][] =>
+  text
+    .replace(/(\r\n|\n|\r)$/, '')
+    .split(/\r\n|\n|\r/)
+    .map((line) => line.split('\t').map((cell) => cell.replace(/^"([\s\S]*)"$/, '$1').replace(/""/g, '"')));
+
+const cellKey = (row: number, column: number) => `${row}:${column}`;
+
+// FullWidthNumberField のセルを並べた表計算風のグリッド
+// Excel などからの複数セルの貼り付けを行・列に展開し、列ごとの設定で正規化・バリデーションする。
+// 矢印キー (左右はキャレットが端にある場合) と Enter (Shift+Enter で上) でセルを移動できる。
+const FullWidthNumberGrid: React.FC<FullWidthNumberGridProps> = ({
+  columns,
+  value,
+  onValueChange,
+  rowLabels,
+  onErrorsChange,
+  label,
+}) => {
+  const messages = useNumberFieldMessages();
+  // セルの操作用の参照 (フォーカスの移動に使用)
+  const cellRefs = useRef<Record<string, FullWidthNumberFieldHandle | null>>({});
+  // セルごとのエラーメッセージ
+  const [cellErrors, setCellErrors] = useState<Record<string, string>>({});
+
+  const getRowLabel = useCallback((row: number) =>
+    rowLabels?.[row] ?? messages.gridRowLabel({ value: '', allowDecimal: true, row: row + 1 }),
+  [rowLabels, messages]);
+
+  const focusCell = useCallback((row: number, column: number) => {
+    const handle = cellRefs.current[cellKey(row, column)];
+    if (handle) {
+      handle.focus();
+      handle.select();
+    }
+  }, []);
+
+  const handleCellChange = useCallback((row: number, column: number, cellValue: string) => {
+    onValueChange(value.map((cells, r) => r === row ? cells.map((cell, c) => c === column ? cellValue : cell) : cells));
+  }, [value, onValueChange]);
+
+  const handleCellValidityChange = useCallback((row: number, column: number, validity: NumberFieldValidity) => {
+    setCellErrors((previous) => {
+      const key = cellKey(row, column);
+      const message = validity.status === 'invalid' ? validity.reasons[0] : undefined;
+      if (previous[key] === message) return previous;
+      const next = { ...previous };
+      if (message === undefined) {
+        delete next[key];
+      } else {
+        next[key] = message;
+      }
+      return next;
+    });
+  }, []);
+
+  // 複数セルの貼り付け (タブまたは改行を含む場合) は、貼り付けたセルを起点に行・列に展開する
+  // グリッドの範囲外のセルは無視する。1セル分の貼り付けはセルの通常の入力として扱う。
+  const handleCellPaste = useCallback((event: React.ClipboardEvent<HTMLDivElement>, row: number, column: number) => {
+    const text = event.clipboardData.getData('text/plain');
+    if (!/[\t\r\n]/.test(text.replace(/(\r\n|\n|\r)$/, ''))) return;
+    event.preventDefault();
+    const pastedCells = parseClipboardCells(text);
+    const nextValue = value.map((cells, r) => cells.map((cell, c) => {
+      const pasted = pastedCells[r - row]?.[c - column];
+      if (pasted === undefined) return cell;
+      // 列の設定 (接頭辞・接尾辞、パーセント、ロケール、漢数字) に従って、セルの値と同じ形式に変換する
+      // 数値として解釈できない場合は正規化だけ行い、セルのエラーとして表示する
+      const fieldProps = columns[c]?.fieldProps ?? {};
+      const suffix = fieldProps.suffix ?? (fieldProps.percent ? '%' : undefined);
+      return parseNumber(pasted, fieldProps) ?? normalizeAndRemoveCommas(
+        stripAffixes(pasted, { prefix: fieldProps.prefix, suffix }),
+        getNumberLocaleSymbols(fieldProps.locale ?? DEFAULT_NUMBER_LOCALE)
+      );
+    }));
+    onValueChange(nextValue);
+  }, [value, columns, onValueChange]);
+
+  const handleCellKeyDown = useCallback((event: React.KeyboardEvent<HTMLDivElement>, row: number, column: number) => {
+    if (event.nativeEvent.isComposing) return;
+    const input = event.target as HTMLInputElement;
+    const caretAtStart = input.selectionStart === 0 && input.selectionEnd === 0;
+    const caretAtEnd = input.selectionStart === input.value.length && input.selectionEnd === input.value.length;
+    const moves: Record<string, [number, number] | undefined> = {
+      ArrowUp: [-1, 0],
+      ArrowDown: [1, 0],
+      Enter: [event.shiftKey ? -1 : 1, 0],
+      ArrowLeft: caretAtStart ? [0, -1] : undefined,
+      ArrowRight: caretAtEnd ? [0, 1] : undefined,
+    };
+    const move = moves[event.key];
+    if (!move) return;
+    // 上下キーはセルの値の増減ではなくセルの移動に使う
+    event.preventDefault();
+    focusCell(row + move[0], column + move[1]);
+  }, [focusCell]);
+
+  // グリッドの範囲内のエラーを行・列の順に並べる
+  const errors = useMemo<NumberGridCellError[]>(() =>
+    value.flatMap((cells, row) => cells.flatMap((_, column) => {
+      const message = column < columns.length ? cellErrors[cellKey(row, column)] : undefined;
+      return message !== undefined ? [{ row, column, message }] : [];
+    })),
+  [value, columns.length, cellErrors]);
+
+  useEffect(() => {
+    if (onErrorsChange) {
+      onErrorsChange(errors);
+    }
+  }, [errors, onErrorsChange]);
+
+  return (
+    <Box>
+      <Table size="small" aria-label={label}>
+        <TableHead>
+          <TableRow>
+            <TableCell />
+            {columns.map((column) => (
+              <TableCell key={column.key} align="right">{column.label}</TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {value.map((cells, row) => (
+            <TableRow key={row}>
+              <TableCell component="th" scope="row">{getRowLabel(row)}</TableCell>
+              {columns.map((column, columnIndex) => (
+                <TableCell key={column.key} sx={{ p: 0.5 }}>
+                  <FullWidthNumberField
+                    size="small"
+                    label=""
+                    placeholder=""
+                    {...column.fieldProps}
+                    ref={(handle) => { cellRefs.current[cellKey(row, columnIndex)] = handle; }}
+                    value={cells[columnIndex] ?? ''}
+                    onValueChange={(cellValue) => handleCellChange(row, columnIndex, cellValue)}
+                    onValidityChange={(validity) => handleCellValidityChange(row, columnIndex, validity)}
+                    onPaste={(event) => handleCellPaste(event, row, columnIndex)}
+                    onKeyDown={(event) => handleCellKeyDown(event, row, columnIndex)}
+                    // エラーの内容は一覧に表示するため、セルの補助テキストは読み上げのみとする
+                    FormHelperTextProps={{ style: VISUALLY_HIDDEN_STYLE }}
+                    inputProps={{ 'aria-label': `${getRowLabel(row)} ${column.label}` }}
+                  />
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {/* エラーのあるセルの一覧 (項目を選択するとそのセルに移動する) */}
+      <Box role="status" aria-live="polite" sx={{ mt: 1 }}>
+        {errors.length > 0 && (
+          <>
+            <Typography variant="body2" color="error">
+              {messages.gridErrorSummary({ value: '', allowDecimal: true, errorCount: errors.length })}
+            </Typography>
+            <Box component="ul" sx={{ m: 0, pl: 3 }}>
+              {errors.map((cellError) => (
+                <li key={cellKey(cellError.row, cellError.column)}>
+                  <Link component="button" type="button" variant="body2" color="error"
+                    onClick={() => focusCell(cellError.row, cellError.column)}
+                  >
+                    {getRowLabel(cellError.row)} {columns[cellError.column].label}: {cellError.message}
+                  </Link>
+                </li>
+              ))}
+            </Box>
+          </>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default FullWidthNumberGrid;
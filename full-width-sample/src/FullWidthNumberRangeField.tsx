@@ -0,0 +1,188 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Box, Typography } from '@mui/material';
+import FullWidthNumberField from './FullWidthInputField';
+import type { FullWidthNumberFieldProps } from './FullWidthInputField';
+import { compareDecimal } from './decimal';
+import { normalizeAndRemoveCommas } from './numberNormalizer';
+import type { NumberFieldValue, NumberRangeValue, NumberValueType } from './numberValue';
+import { toFieldValue } from './numberValue';
+import { useNumberFieldMessages } from './messagesContext';
+import { createGreaterThanOrEqualValidator, createLessThanOrEqualValidator } from './validators';
+
+type RangeSide = 'from' | 'to';
+
+/**
+ * 範囲の値の指定 (value / defaultValue)。省略した側や null の側は未入力として扱います。
+ */
+interface NumberRangeInput {
+  from?: string | number | bigint | null;
+  to?: string | number | bigint | null;
+}
+
+// FullWidthNumberRangeField の Props の型定義
+// min, max, allowDecimal などの FullWidthNumberField の Props は、下限・上限の両方の入力欄に適用されます。
+interface FullWidthNumberRangeFieldProps<T extends NumberValueType = 'string'>
+  extends Omit<
+    FullWidthNumberFieldProps<T>,
+    'value' | 'defaultValue' | 'onValueChange' | 'onValueCommit' | 'label' | 'name' | 'validationDeps'
+  > {
+  /**
+   * コンポーネントが制御する範囲の値。指定しない場合は defaultValue を初期値として内部で値を管理します。
+   */
+  value?: NumberRangeInput;
+  /**
+   * 非制御モード (value を指定しない場合) の初期値。
+   */
+  defaultValue?: NumberRangeInput;
+  /**
+   * 下限・上限のいずれかが変更されたときに呼び出されるコールバック関数。
+   * 値は valueType の型で渡され、未入力の側は上限・下限なしを表します。
+   */
+  onValueChange?: (value: NumberRangeValue<T>) => void;
+  /**
+   * 範囲全体のラベル (グループのアクセシブルな名前)。
+   */
+  label?: string;
+  /**
+   * 下限・上限の入力欄のラベル。省略した場合はメッセージカタログの文言を使用します。
+   */
+  fromLabel?: string;
+  toLabel?: string;
+  /**
+   * 下限・上限の入力欄の name (フォーム送信用)。
+   */
+  fromName?: string;
+  toName?: string;
+  /**
+   * フォーカスアウト時に、下限が上限を上回っている場合は入れ替えるかどうか。デフォルトはfalse。
+   * falseの場合は、最後に編集した側の入力欄にエラーを表示します。
+   */
+  autoSwap?: boolean;
+  /**
+   * 下限と上限の間に表示する区切り。デフォルトは "〜"。
+   */
+  separator?: React.ReactNode;
+}
+
+// 範囲の指定を valueType の型の値に変換する
+const toRangeValue = <T extends NumberValueType>(
+  input: NumberRangeInput | undefined,
+  valueType: T
+): NumberRangeValue<T> => ({
+  from: toFieldValue(normalizeAndRemoveCommas(input?.from), valueType),
+  to: toFieldValue(normalizeAndRemoveCommas(input?.to), valueType),
+});
+
+// 大小比較とバリデーションに使う値 (未入力は null)
+const toComparableValue = (value: string | number | bigint | null): string | null =>
+  value === null || value === '' ? null : String(value);
+
+// 下限・上限の2つの FullWidthNumberField で数値の範囲を入力するコンポーネント
+// 「下限 ≦ 上限」を検証し、最後に編集した側の入力欄にエラーを表示する。
+const FullWidthNumberRangeField = <T extends NumberValueType = 'string'>({
+  value: controlledValue,
+  defaultValue,
+  valueType = 'string' as T,
+  onValueChange,
+  label,
+  fromLabel,
+  toLabel,
+  fromName,
+  toName,
+  autoSwap = false,
+  separator = '〜',
+  validators,
+  onBlur,
+  messages: messageOverrides,
+  ...fieldProps
+}: FullWidthNumberRangeFieldProps<T>) => {
+  const messages = useNumberFieldMessages(messageOverrides);
+  const isControlled = controlledValue !== undefined;
+
+  const [internalRange, setInternalRange] = useState<NumberRangeValue<T>>(() => toRangeValue(defaultValue, valueType));
+  const range = isControlled ? toRangeValue(controlledValue, valueType) : internalRange;
+  // 最後に編集した側 (範囲の逆転のエラーを表示する側)
+  const [lastEditedSide, setLastEditedSide] = useState<RangeSide>('to');
+
+  // フォーカスアウト時の入れ替えで、再レンダリング前の最新の値を参照するために保持する
+  const latestRange = useRef(range);
+  useEffect(() => {
+    latestRange.current = range;
+  });
+
+  const emitRange = useCallback((nextRange: NumberRangeValue<T>) => {
+    latestRange.current = nextRange;
+    if (!isControlled) {
+      setInternalRange(nextRange);
+    }
+    if (onValueChange) {
+      onValueChange(nextRange);
+    }
+  }, [isControlled, onValueChange]);
+
+  const handleSideChange = useCallback((side: RangeSide, sideValue: NumberFieldValue<T>) => {
+    setLastEditedSide(side);
+    emitRange({ ...latestRange.current, [side]: sideValue });
+  }, [emitRange]);
+
+  const handleBlur = useCallback((event: React.FocusEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { from, to } = latestRange.current;
+    const fromValue = toComparableValue(from);
+    const toValue = toComparableValue(to);
+    if (autoSwap && fromValue !== null && toValue !== null && compareDecimal(fromValue, toValue) > 0) {
+      emitRange({ from: to, to: from });
+    }
+    if (onBlur) {
+      onBlur(event);
+    }
+  }, [autoSwap, emitRange, onBlur]);
+
+  const resolvedFromLabel = fromLabel ?? messages.rangeFromLabel({ value: '', allowDecimal: fieldProps.allowDecimal ?? true });
+  const resolvedToLabel = toLabel ?? messages.rangeToLabel({ value: '', allowDecimal: fieldProps.allowDecimal ?? true });
+
+  // 範囲の逆転は、最後に編集した側だけで検証する
+  const fromComparable = toComparableValue(range.from);
+  const toComparable = toComparableValue(range.to);
+  const fromValidators = useMemo(() => [
+    ...(validators ?? []),
+    ...(lastEditedSide === 'from' ? [createLessThanOrEqualValidator(toComparable, resolvedToLabel)] : []),
+  ], [validators, lastEditedSide, toComparable, resolvedToLabel]);
+  const toValidators = useMemo(() => [
+    ...(validators ?? []),
+    ...(lastEditedSide === 'to' ? [createGreaterThanOrEqualValidator(fromComparable, resolvedFromLabel)] : []),
+  ], [validators, lastEditedSide, fromComparable, resolvedFromLabel]);
+
+  return (
+    <Box role="group" aria-label={label} sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+      <FullWidthNumberField<T>
+        {...fieldProps}
+        messages={messageOverrides}
+        valueType={valueType}
+        label={resolvedFromLabel}
+        name={fromName}
+        value={range.from}
+        onValueChange={(sideValue) => handleSideChange('from', sideValue)}
+        onBlur={handleBlur}
+        validators={fromValidators}
+        validationDeps={[toComparable, lastEditedSide]}
+      />
+      <Typography component="span" sx={{ mt: 2 }} aria-hidden>
+        {separator}
+      </Typography>
+      <FullWidthNumberField<T>
+        {...fieldProps}
+        messages={messageOverrides}
+        valueType={valueType}
+        label={resolvedToLabel}
+        name={toName}
+        value={range.to}
+        onValueChange={(sideValue) => handleSideChange('to', sideValue)}
+        onBlur={handleBlur}
+        validators={toValidators}
+        validationDeps={[fromComparable, lastEditedSide]}
+      />
+    </Box>
+  );
+};
+
+export default FullWidthNumberRangeField;
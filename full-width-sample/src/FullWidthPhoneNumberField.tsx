@@ -0,0 +1,43 @@
+import React from 'react';
+import FullWidthTextField from './FullWidthTextField';
+import type { FullWidthTextFieldProps, FullWidthTextFormat } from './FullWidthTextField';
+import { useNumberFieldMessages } from './messagesContext';
+import { normalizePhoneNumber, parsePhoneNumber } from './textNormalizer';
+
+const PHONE_NUMBER_FORMAT: FullWidthTextFormat = {
+  normalize: normalizePhoneNumber,
+  parse: parsePhoneNumber,
+  separator: '-',
+};
+
+// FullWidthPhoneNumberField の Props の型定義
+// 値は "090-1234-5678" のようにハイフンで区切った文字列で、入力途中や解釈できない場合は空文字列です。
+type FullWidthPhoneNumberFieldProps = Omit<FullWidthTextFieldProps, 'textFormat' | 'invalidMessage'>;
+
+// 電話番号の入力欄
+// 全角数字・括弧・空白を含む入力を半角にそろえ、番号の種類に応じてハイフンを自動で挿入する。
+const FullWidthPhoneNumberField: React.FC<FullWidthPhoneNumberFieldProps> = ({
+  label,
+  placeholder,
+  inputProps,
+  messages: messageOverrides,
+  ...props
+}) => {
+  const messages = useNumberFieldMessages(messageOverrides);
+
+  return (
+    <FullWidthTextField
+      label={label ?? messages.phoneNumberLabel({})}
+      placeholder={placeholder ?? '090-1234-5678'}
+      autoComplete="tel"
+      {...props}
+      messages={messageOverrides}
+      textFormat={PHONE_NUMBER_FORMAT}
+      invalidMessage={messages.invalidPhoneNumber}
+      // モバイルで電話番号用のキーボードを表示する
+      inputProps={{ inputMode: 'tel', ...inputProps }}
+    />
+  );
+};
+
+export default FullWidthPhoneNumberField;
@@ -0,0 +1,43 @@
+import React from 'react';
+import FullWidthTextField from './FullWidthTextField';
+import type { FullWidthTextFieldProps, FullWidthTextFormat } from './FullWidthTextField';
+import { useNumberFieldMessages } from './messagesContext';
+import { normalizePostalCode, parsePostalCode } from './textNormalizer';
+
+const POSTAL_CODE_FORMAT: FullWidthTextFormat = {
+  normalize: normalizePostalCode,
+  parse: parsePostalCode,
+  separator: '-',
+};
+
+// FullWidthPostalCodeField の Props の型定義
+// 値は "123-4567" の形式の文字列で、入力途中や解釈できない場合は空文字列です。
+type FullWidthPostalCodeFieldProps = Omit<FullWidthTextFieldProps, 'textFormat' | 'invalidMessage'>;
+
+// 郵便番号の入力欄
+// 「〒１２３－４５６７」のような全角・郵便記号付きの入力を「123-4567」に正規化する。
+const FullWidthPostalCodeField: React.FC<FullWidthPostalCodeFieldProps> = ({
+  label,
+  placeholder,
+  inputProps,
+  messages: messageOverrides,
+  ...props
+}) => {
+  const messages = useNumberFieldMessages(messageOverrides);
+
+  return (
+    <FullWidthTextField
+      label={label ?? messages.postalCodeLabel({})}
+      placeholder={placeholder ?? '123-4567'}
+      autoComplete="postal-code"
+      {...props}
+      messages={messageOverrides}
+      textFormat={POSTAL_CODE_FORMAT}
+      invalidMessage={messages.invalidPostalCode}
+      // モバイルで数字用のキーボードを表示する
+      inputProps={{ inputMode: 'numeric', ...inputProps }}
+    />
+  );
+};
+
+export default FullWidthPostalCodeField;
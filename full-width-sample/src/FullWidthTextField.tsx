@@ -0,0 +1,207 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { TextFieldProps } from '@mui/material';
+import { TextField } from '@mui/material';
+import type { NumberFieldMessages, TextFieldMessageFormatter } from './messages';
+import { useNumberFieldMessages } from './messagesContext';
+import { useComposition } from './useComposition';
+import { countSignificantChars, findCaretPosition } from './caretPosition';
+
+/**
+ * FullWidthTextField の入力の正規化・解釈・表示の定義。
+ */
+export interface FullWidthTextFormat {
+  /** 入力された文字列を正規化する (全角→半角、ハイフンの自動挿入など)。IMEの変換の確定後と直接入力のたびに呼び出されます。 */
+  normalize: (input: string) => string;
+  /** 正規化した文字列を値に変換する。入力途中や解釈できない場合は null を返します。 */
+  parse: (text: string) => string | null;
+  /** 値を入力欄に表示する文字列にする (フォーカスアウト時と value の変更時)。省略した場合は値をそのまま表示します。 */
+  format?: (value: string) => string;
+  /** normalize が自動で挿入する区切り文字 (例: "-")。入力後のキャレット位置の復元で、区切り文字を数えずに読み飛ばします。 */
+  separator?: string;
+}
+
+// FullWidthTextField の Props の型定義
+export interface FullWidthTextFieldProps
+  extends Omit<TextFieldProps, 'value' | 'defaultValue' | 'onChange' | 'type'> {
+  /**
+   * コンポーネントが制御する値 (textFormat.parse で変換した文字列)。未入力・入力途中の場合は空文字列です。
+   * 指定しない場合は defaultValue を初期値として内部で値を管理します。
+   */
+  value?: string;
+  /**
+   * 非制御モード (value を指定しない場合) の初期値。
+   */
+  defaultValue?: string;
+  /**
+   * 値が変更されたときに呼び出されるコールバック関数。入力途中や解釈できない場合は空文字列が渡されます。
+   */
+  onValueChange?: (value: string) => void;
+  /**
+   * TextFieldの標準onChange。event.target.value には正規化後の文字列が入ります。
+   */
+  onChange?: (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void;
+  /**
+   * 入力の正規化・解釈・表示の定義。再レンダリングのたびに作り直さないよう、定数か useMemo で渡してください。
+   */
+  textFormat: FullWidthTextFormat;
+  /**
+   * 入力を値として解釈できない場合に、フォーカスアウト時に表示するエラーメッセージ。
+   */
+  invalidMessage: TextFieldMessageFormatter;
+  /**
+   * メッセージカタログの上書き (NumberFieldMessagesProvider の文言より優先されます)。
+   */
+  messages?: Partial<NumberFieldMessages>;
+}
+
+// 郵便番号・電話番号・日付など、全角の入力を正規化する文字列の入力欄
+// IMEの変換中は未確定文字列をそのまま表示し、確定後に textFormat で正規化して値を通知する。
+// 入力途中の値はエラーにせず、フォーカスアウト時に解釈できない場合だけエラーを表示する。
+const FullWidthTextField: React.FC<FullWidthTextFieldProps> = ({
+  value: controlledValue,
+  defaultValue,
+  onValueChange,
+  onChange,
+  onBlur,
+  textFormat,
+  invalidMessage,
+  messages: messageOverrides,
+  required,
+  error: externalError,
+  helperText,
+  name,
+  inputRef: externalInputRef,
+  ...restProps
+}) => {
+  const messages = useNumberFieldMessages(messageOverrides);
+  const { isComposing, getCompositionHandlers } = useComposition();
+
+  const formatValue = useCallback((value: string) =>
+    value !== '' && textFormat.format ? textFormat.format(value) : value,
+  [textFormat]);
+
+  // 入力欄の文字列 (正規化後の文字列、またはIMEの未確定文字列)
+  const [text, setText] = useState(() => formatValue(controlledValue ?? defaultValue ?? ''));
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // 親から渡された値との比較やフォーカスアウト時に、再レンダリング前の最新の文字列を参照するために保持する
+  const latestText = useRef(text);
+  const updateText = useCallback((nextText: string) => {
+    latestText.current = nextText;
+    setText(nextText);
+  }, []);
+
+  // input 要素への参照と、正規化後に復元するキャレットの位置 (キャレットより前の意味のある文字数)
+  const inputElementRef = useRef<HTMLInputElement | null>(null);
+  const pendingCaret = useRef<number | null>(null);
+
+  // 外部から渡された inputRef と内部の参照の両方に input 要素を設定する
+  const handleInputRef = useCallback((element: HTMLInputElement | null) => {
+    inputElementRef.current = element;
+    if (typeof externalInputRef === 'function') {
+      externalInputRef(element);
+    } else if (externalInputRef) {
+      (externalInputRef as React.RefObject<HTMLInputElement | null>).current = element;
+    }
+  }, [externalInputRef]);
+
+  // 親から渡された値が入力中の値と異なる場合は、表示を置き換える
+  useEffect(() => {
+    if (controlledValue === undefined || isComposing.current) return;
+    if ((textFormat.parse(latestText.current) ?? '') !== controlledValue) {
+      pendingCaret.current = null;
+      updateText(formatValue(controlledValue));
+      setErrorMessage(null);
+    }
+  }, [controlledValue, textFormat, formatValue, updateText, isComposing]);
+
+  const handleChange = useCallback((event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const input = event.target.value;
+
+    // composition中は未確定文字列をそのまま表示し、正規化・通知は変換の確定後に行う
+    if (isComposing.current) {
+      updateText(input);
+      if (onChange) {
+        onChange(event);
+      }
+      return;
+    }
+
+    const normalizedText = textFormat.normalize(input);
+    // ハイフンの自動挿入などで文字列が変わってもキャレットを同じ文字の直後に保つため、
+    // キャレットより前の部分を正規化した、区切り文字以外の文字数を記録する
+    const caret = event.target.selectionStart;
+    pendingCaret.current = caret !== null
+      ? countSignificantChars(textFormat.normalize(input.slice(0, caret)), textFormat.separator)
+      : null;
+    updateText(normalizedText);
+    // 入力途中はエラーにしないため、エラーはフォーカスアウト時に判定し直す
+    setErrorMessage(null);
+    if (onValueChange) {
+      onValueChange(textFormat.parse(normalizedText) ?? '');
+    }
+    if (onChange) {
+      onChange({
+        ...event,
+        target: {
+          ...event.target,
+          value: normalizedText, // 正規化後の文字列をセットして渡す
+        },
+      });
+    }
+  }, [isComposing, textFormat, updateText, onValueChange, onChange]);
+
+  // 正規化で表示文字列が変わった後、記録しておいたキャレット位置を復元する
+  useLayoutEffect(() => {
+    const element = inputElementRef.current;
+    const significantCount = pendingCaret.current;
+    pendingCaret.current = null;
+    if (element === null || significantCount === null || document.activeElement !== element) return;
+    const position = findCaretPosition(element.value, significantCount, textFormat.separator);
+    element.setSelectionRange(position, position);
+  });
+
+  const handleBlur = useCallback((event: React.FocusEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    if (!isComposing.current) {
+      const currentText = latestText.current;
+      const value = textFormat.parse(currentText);
+      if (currentText === '') {
+        setErrorMessage(required ? messages.textFieldRequired({ value: currentText }) : null);
+      } else if (value === null) {
+        setErrorMessage(invalidMessage({ value: currentText }));
+      } else {
+        // 確定した値を表示用の形式 (和暦など) にそろえる
+        pendingCaret.current = null;
+        updateText(formatValue(value));
+        setErrorMessage(null);
+      }
+    }
+    if (onBlur) {
+      onBlur(event);
+    }
+  }, [isComposing, textFormat, required, messages, invalidMessage, updateText, formatValue, onBlur]);
+
+  return (
+    <>
+      <TextField
+        value={text}
+        onChange={handleChange}
+        onBlur={handleBlur}
+        inputRef={handleInputRef}
+        type="text" // 全角文字を受け入れるために'text'型を使用
+        required={required}
+        error={externalError || errorMessage !== null}
+        helperText={errorMessage ?? helperText}
+        // IME compositionイベントハンドラ (確定後の文字列で handleChange をやり直す)
+        {...getCompositionHandlers({ onCommit: handleChange })}
+        {...restProps}
+      />
+      {/* フォームの送信用に、表示形式ではなく値 (ISO形式の日付など) を hidden input に持たせる */}
+      {name !== undefined && (
+        <input type="hidden" name={name} value={textFormat.parse(text) ?? ''} disabled={restProps.disabled} />
+      )}
+    </>
+  );
+};
+
+export default FullWidthTextField;
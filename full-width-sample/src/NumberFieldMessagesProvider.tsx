@@ -0,0 +1,38 @@
+import React, { useContext, useMemo } from 'react';
+import type { NumberFieldLanguage, NumberFieldMessages } from './messages';
+import { builtInMessages } from './messages';
+import { NumberFieldMessagesContext } from './messagesContext';
+
+interface NumberFieldMessagesProviderProps {
+  /**
+   * 使用する組み込みメッセージの言語。
+   * 省略した場合は、親のProviderのメッセージ (なければ日本語) を引き継ぎます。
+   */
+  language?: NumberFieldLanguage;
+  /**
+   * 組み込みメッセージの一部を上書きするメッセージ。
+   */
+  messages?: Partial<NumberFieldMessages>;
+  children?: React.ReactNode;
+}
+
+// 配下の FullWidthNumberField が表示するメッセージを切り替える Provider
+const NumberFieldMessagesProvider: React.FC<NumberFieldMessagesProviderProps> = ({
+  language,
+  messages,
+  children,
+}) => {
+  const parentMessages = useContext(NumberFieldMessagesContext);
+  const value = useMemo(() => ({
+    ...(language ? builtInMessages[language] : parentMessages),
+    ...messages,
+  }), [language, messages, parentMessages]);
+
+  return (
+    <NumberFieldMessagesContext.Provider value={value}>
+      {children}
+    </NumberFieldMessagesContext.Provider>
+  );
+};
+
+export default NumberFieldMessagesProvider;
@@ -0,0 +1,81 @@
+import { useController } from 'react-hook-form';
+import type { FieldPath, FieldValues, UseControllerProps } from 'react-hook-form';
+import FullWidthNumberField from './FullWidthInputField';
+import type { FullWidthNumberFieldProps } from './FullWidthInputField';
+import type { NumberValueType } from './numberValue';
+import { useFormValidity } from './useFormValidity';
+
+// react-hook-form 用の FullWidthNumberField の型定義
+// 値・名前・既定値は react-hook-form (useController) の指定を使うため、FullWidthNumberField からは除外します。
+type RhfFullWidthNumberFieldProps<
+  TFieldValues extends FieldValues,
+  TName extends FieldPath<TFieldValues>,
+  T extends NumberValueType,
+> = Omit<FullWidthNumberFieldProps<T>, 'value' | 'defaultValue' | 'onValueChange' | 'name' | 'disabled'> &
+  UseControllerProps<TFieldValues, TName>;
+
+// react-hook-form の Controller (useController) と連携する FullWidthNumberField
+// - 正規化した値 (valueType の型) をフォームの値として渡す
+// - 組み込みと独自のバリデーションの結果を rules.validate としてフォームのエラーに反映する (未操作のフィールドも送信時に検証する)
+// - フォーカスアウトで touched にし、フォームのエラー (rules.required など) は touched または送信後に表示する
+const RhfFullWidthNumberField = <
+  TFieldValues extends FieldValues = FieldValues,
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>,
+  T extends NumberValueType = 'string',
+>({
+  name,
+  control,
+  rules,
+  defaultValue,
+  shouldUnregister,
+  disabled,
+  exact,
+  onBlur,
+  onValidityChange,
+  helperText,
+  ...fieldProps
+}: RhfFullWidthNumberFieldProps<TFieldValues, TName, T>) => {
+  const { handleValidityChange, setFieldHandle, getValidationError } = useFormValidity(onValidityChange);
+  const { field, fieldState, formState } = useController({
+    name,
+    control,
+    defaultValue,
+    shouldUnregister,
+    disabled,
+    exact,
+    rules: {
+      ...rules,
+      validate: {
+        ...(typeof rules?.validate === 'function' ? { custom: rules.validate } : rules?.validate),
+        fullWidthNumberField: () => getValidationError(),
+      },
+    },
+  });
+
+  const showFormError = fieldState.error !== undefined && (fieldState.isTouched || formState.isSubmitted);
+
+  return (
+    <FullWidthNumberField<T>
+      {...fieldProps}
+      ref={(handle) => {
+        field.ref(handle);
+        setFieldHandle(handle);
+      }}
+      name={field.name}
+      value={(field.value ?? null) as FullWidthNumberFieldProps<T>['value']}
+      disabled={field.disabled}
+      onValueChange={field.onChange}
+      onBlur={(event) => {
+        field.onBlur();
+        if (onBlur) {
+          onBlur(event);
+        }
+      }}
+      onValidityChange={handleValidityChange}
+      helperText={showFormError ? fieldState.error?.message : helperText}
+      {...(showFormError && { error: true })}
+    />
+  );
+};
+
+export default RhfFullWidthNumberField;
@@ -0,0 +1,17 @@
+// 正規化・フォーマットで入力欄の文字列が変わったときに、キャレットを同じ文字の直後に保つための関数群
+// キャレットより前にある「意味のある文字」(区切り文字以外の文字) の数を記録し、表示後の文字列で同じ数だけ進める。
+
+// 文字列に含まれる、区切り文字以外の文字の数を数える関数
+export const countSignificantChars = (text: string, separator?: string): number =>
+  separator ? text.split(separator).join('').length : text.length;
+
+// フォーマット後の表示文字列で、意味のある文字を指定数だけ進んだ位置を返す関数
+// 区切り文字 (桁区切り文字、自動で挿入したハイフンなど) は数えずに読み飛ばす。
+export const findCaretPosition = (display: string, significantCount: number, separator?: string): number => {
+  let count = 0;
+  for (let i = 0; i < display.length; i++) {
+    if (count === significantCount) return i;
+    if (display[i] !== separator) count++;
+  }
+  return display.length;
+};
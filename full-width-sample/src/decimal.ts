@@ -0,0 +1,220 @@
+import type { NumberLocaleSymbols } from './numberLocale';
+import { getNumberLocaleSymbols } from './numberLocale';
+
+// 10進数文字列を Number を経由せずに扱うためのユーティリティ
+// 2^53 を超える整数や長い小数部を、丸め誤差なく比較・丸め・桁区切りするために使用する。
+
+/**
+ * 10進数文字列を符号・整数部・小数部に分解したもの。
+ * 整数部の先頭の0は取り除かれます (ただし "0" は残ります)。
+ */
+export interface DecimalParts {
+  negative: boolean;
+  integer: string;
+  fraction: string;
+  /** 末尾が小数点で終わっているかどうか (入力途中の "123." など) */
+  hasTrailingPoint: boolean;
+}
+
+// 10進数文字列を分解する関数。数値として解釈できない場合は null を返す。
+export const parseDecimal = (value: string): DecimalParts | null => {
+  const match = /^(-)?(\d*)(?:(\.)(\d*))?$/.exec(value);
+  if (!match) return null;
+  const [, sign, integer, point, fraction = ''] = match;
+  if (integer === '' && fraction === '') return null;
+  return {
+    negative: sign === '-',
+    integer: integer.replace(/^0+(?=\d)/, '') || '0',
+    fraction,
+    hasTrailingPoint: point !== undefined && fraction === '',
+  };
+};
+
+// 小数点以下を指定桁数にそろえた BigInt に変換する
+const toScaledBigInt = (parts: DecimalParts, scale: number): bigint => {
+  const digits = BigInt(parts.integer + parts.fraction.padEnd(scale, '0'));
+  return parts.negative ? -digits : digits;
+};
+
+// 2つの10進数文字列を比較する関数。a < b なら負、a = b なら0、a > b なら正の値を返す。
+// どちらかが数値として解釈できない場合は NaN を返す。
+export const compareDecimal = (a: string, b: string): number => {
+  const partsA = parseDecimal(a);
+  const partsB = parseDecimal(b);
+  if (partsA === null || partsB === null) return NaN;
+  const scale = Math.max(partsA.fraction.length, partsB.fraction.length);
+  const scaledA = toScaledBigInt(partsA, scale);
+  const scaledB = toScaledBigInt(partsB, scale);
+  return scaledA < scaledB ? -1 : scaledA > scaledB ? 1 : 0;
+};
+
+// value が step の整数倍かどうかを判定する関数 (base を起点とする)
+// どれかが数値として解釈できない場合、または step が0の場合は false を返す。
+export const isMultipleOfDecimal = (value: string, step: string, base: string = '0'): boolean => {
+  const partsValue = parseDecimal(value);
+  const partsStep = parseDecimal(step);
+  const partsBase = parseDecimal(base);
+  if (partsValue === null || partsStep === null || partsBase === null) return false;
+  const scale = Math.max(partsValue.fraction.length, partsStep.fraction.length, partsBase.fraction.length);
+  const scaledStep = toScaledBigInt(partsStep, scale);
+  if (scaledStep === 0n) return false;
+  return (toScaledBigInt(partsValue, scale) - toScaledBigInt(partsBase, scale)) % scaledStep === 0n;
+};
+
+// 指定桁数の BigInt を10進数文字列に戻す
+const fromScaledBigInt = (scaled: bigint, scale: number): string => {
+  const negative = scaled < 0n;
+  const digits = (negative ? -scaled : scaled).toString().padStart(scale + 1, '0');
+  const integer = digits.slice(0, digits.length - scale);
+  const fraction = digits.slice(digits.length - scale);
+  const unsigned = scale > 0 ? `${integer}.${fraction}` : integer;
+  // "-0.00" のような負のゼロは符号を付けない
+  return negative && scaled !== 0n ? `-${unsigned}` : unsigned;
+};
+
+/**
+ * 丸め方法。
+ * - 'half-up': 四捨五入 (0.5は0から遠い方向へ)
+ * - 'half-even': 銀行家の丸め (0.5は偶数側へ)
+ * - 'floor': 負の無限大方向への切り捨て
+ * - 'ceil': 正の無限大方向への切り上げ
+ * - 'truncate': 0方向への切り捨て
+ */
+export type RoundingMode = 'half-up' | 'half-even' | 'floor' | 'ceil' | 'truncate';
+
+// 切り捨てた端数から、絶対値を1増やすべきかどうかを判定する
+const shouldRoundAwayFromZero = (
+  mode: RoundingMode,
+  negative: boolean,
+  quotient: bigint,
+  remainder: bigint,
+  divisor: bigint
+): boolean => {
+  if (remainder === 0n) return false;
+  switch (mode) {
+    case 'half-up':
+      return remainder * 2n >= divisor;
+    case 'half-even':
+      return remainder * 2n > divisor || (remainder * 2n === divisor && quotient % 2n === 1n);
+    case 'floor':
+      return negative;
+    case 'ceil':
+      return !negative;
+    case 'truncate':
+      return false;
+  }
+};
+
+// 2つの10進数文字列の和・差を求める関数 (小数点以下の桁数は多い方にそろえる)
+// どちらかが数値として解釈できない場合は null を返す。
+const sumDecimal = (a: string, b: string, sign: 1n | -1n): string | null => {
+  const partsA = parseDecimal(a);
+  const partsB = parseDecimal(b);
+  if (partsA === null || partsB === null) return null;
+  const scale = Math.max(partsA.fraction.length, partsB.fraction.length);
+  return fromScaledBigInt(toScaledBigInt(partsA, scale) + sign * toScaledBigInt(partsB, scale), scale);
+};
+
+export const addDecimal = (a: string, b: string): string | null => sumDecimal(a, b, 1n);
+
+export const subtractDecimal = (a: string, b: string): string | null => sumDecimal(a, b, -1n);
+
+// 2つの10進数文字列の積を求める関数。どちらかが数値として解釈できない場合は null を返す。
+export const multiplyDecimal = (a: string, b: string): string | null => {
+  const partsA = parseDecimal(a);
+  const partsB = parseDecimal(b);
+  if (partsA === null || partsB === null) return null;
+  return fromScaledBigInt(
+    toScaledBigInt(partsA, partsA.fraction.length) * toScaledBigInt(partsB, partsB.fraction.length),
+    partsA.fraction.length + partsB.fraction.length
+  );
+};
+
+// 2つの10進数文字列の商を小数点以下 places 桁まで求める関数 (places 桁未満の端数は mode で丸める)
+// どちらかが数値として解釈できない場合、または除数が0の場合は null を返す。
+export const divideDecimal = (
+  a: string,
+  b: string,
+  places: number,
+  mode: RoundingMode = 'half-up'
+): string | null => {
+  const partsA = parseDecimal(a);
+  const partsB = parseDecimal(b);
+  if (partsA === null || partsB === null) return null;
+  const scale = Math.max(partsA.fraction.length, partsB.fraction.length);
+  const dividend = toScaledBigInt(partsA, scale) * 10n ** BigInt(places);
+  const divisor = toScaledBigInt(partsB, scale);
+  if (divisor === 0n) return null;
+  const negative = (dividend < 0n) !== (divisor < 0n);
+  const absoluteDividend = dividend < 0n ? -dividend : dividend;
+  const absoluteDivisor = divisor < 0n ? -divisor : divisor;
+  let quotient = absoluteDividend / absoluteDivisor;
+  if (shouldRoundAwayFromZero(mode, negative, quotient, absoluteDividend % absoluteDivisor, absoluteDivisor)) {
+    quotient += 1n;
+  }
+  return fromScaledBigInt(negative ? -quotient : quotient, places);
+};
+
+// 10進数文字列を小数点以下 places 桁に丸める関数 (デフォルトは四捨五入)
+// Number.prototype.toFixed と異なり、"1.005" は "1.01" になる。
+// 数値として解釈できない場合は入力をそのまま返す。
+export const roundDecimal = (value: string, places: number, mode: RoundingMode = 'half-up'): string => {
+  const parts = parseDecimal(value);
+  if (parts === null) return value;
+  if (parts.fraction.length <= places) {
+    return fromScaledBigInt(toScaledBigInt(parts, places), places);
+  }
+  const scaled = toScaledBigInt(parts, parts.fraction.length);
+  const divisor = 10n ** BigInt(parts.fraction.length - places);
+  const absolute = scaled < 0n ? -scaled : scaled;
+  let quotient = absolute / divisor;
+  if (shouldRoundAwayFromZero(mode, scaled < 0n, quotient, absolute % divisor, divisor)) {
+    quotient += 1n;
+  }
+  return fromScaledBigInt(scaled < 0n ? -quotient : quotient, places);
+};
+
+// 整数部の数字列を桁区切りする関数
+// 最下位は primaryGroupSize 桁、それより上位は secondaryGroupSize 桁ごとに区切る
+// (en-IN のラク・クロール表記では 3, 2 となり "12,34,567" になる)。
+export const groupIntegerDigits = (
+  integer: string,
+  separator: string = ',',
+  primaryGroupSize: number = 3,
+  secondaryGroupSize: number = primaryGroupSize
+): string => {
+  if (integer.length <= primaryGroupSize) return integer;
+  const head = integer.slice(0, -primaryGroupSize);
+  const groups = [integer.slice(-primaryGroupSize)];
+  for (let end = head.length; end > 0; end -= secondaryGroupSize) {
+    groups.unshift(head.slice(Math.max(0, end - secondaryGroupSize), end));
+  }
+  return groups.join(separator);
+};
+
+// 10進数文字列を桁区切りにフォーマットする関数 (Numberを経由しない)
+// decimalPlaces が指定されている場合は、その桁数まで0埋めする。
+// 入力途中の値を書き換えないよう、桁数を超える小数部は丸めずにそのまま表示する。
+// 入力途中の "123." は小数点を残したまま表示する。
+// 区切り文字は symbols で指定し、省略時は en-US 相当の表記になる。
+export const formatDecimal = (
+  value: string,
+  allowDecimal: boolean,
+  decimalPlaces?: number,
+  symbols: NumberLocaleSymbols = getNumberLocaleSymbols()
+): string => {
+  if (value === '' || value === '-' || value === '.' || value === '-.') return value;
+  const parts = parseDecimal(value);
+  if (parts === null) return value; // フォーマット不能ならそのまま
+
+  const places = allowDecimal ? decimalPlaces : undefined;
+  const fraction = places !== undefined ? parts.fraction.padEnd(places, '0') : parts.fraction;
+
+  const sign = parts.negative ? '-' : '';
+  const integer = groupIntegerDigits(
+    parts.integer, symbols.group, symbols.primaryGroupSize, symbols.secondaryGroupSize
+  );
+  if (fraction !== '') return `${sign}${integer}${symbols.decimal}${fraction}`;
+  if (parts.hasTrailingPoint) return `${sign}${integer}${symbols.decimal}`;
+  return `${sign}${integer}`;
+};
@@ -0,0 +1,85 @@
+// 和暦 (令和6年1月2日、R6.1.2) と西暦の日付を ISO 形式 (YYYY-MM-DD) に変換する関数群
+import { toHalfWidthText } from './textNormalizer';
+
+interface Era {
+  name: string;
+  letter: string;
+  /** 元年の1月1日から数えた開始日 (その元号が始まった日) */
+  start: { year: number; month: number; day: number };
+}
+
+// 元号と開始日 (新しい順)
+const ERAS: ReadonlyArray<Era> = [
+  { name: '令和', letter: 'R', start: { year: 2019, month: 5, day: 1 } },
+  { name: '平成', letter: 'H', start: { year: 1989, month: 1, day: 8 } },
+  { name: '昭和', letter: 'S', start: { year: 1926, month: 12, day: 25 } },
+  { name: '大正', letter: 'T', start: { year: 1912, month: 7, day: 30 } },
+  { name: '明治', letter: 'M', start: { year: 1868, month: 1, day: 25 } },
+];
+
+const toIsoDate = (year: number, month: number, day: number): string =>
+  `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+const toEraStartIso = (era: Era): string => toIsoDate(era.start.year, era.start.month, era.start.day);
+
+// 実在する日付かどうか (2月30日などを除く)
+const isValidDate = (year: number, month: number, day: number): boolean => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+// 和暦: 元号 (漢字または頭文字) + 年 (「元」も可) + 月 + 日。区切りは 年月日 / . / - のいずれか
+const ERA_DATE_PATTERN = /^(明治|大正|昭和|平成|令和|[MTSHR])(元|\d{1,2})[年./-](\d{1,2})[月./-](\d{1,2})日?$/i;
+// 西暦: 年 + 月 + 日、または8桁の数字
+const GREGORIAN_DATE_PATTERN = /^(\d{4})[年./-](\d{1,2})[月./-](\d{1,2})日?$/;
+const COMPACT_DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})$/;
+
+/**
+ * 和暦・西暦の日付の入力を ISO 形式 (YYYY-MM-DD) に変換します。
+ * 「令和６年１月２日」「R6.1.2」「平成元年1月8日」「2024/1/2」「20240102」のような表記に対応します。
+ * 実在しない日付や、元号の期間外の日付 (平成31年5月1日など) の場合は null を返します。
+ */
+export const parseJapaneseDate = (input: string): string | null => {
+  const text = toHalfWidthText(input).replace(/[\s\u3000]/g, '');
+
+  const eraMatch = ERA_DATE_PATTERN.exec(text);
+  if (eraMatch) {
+    const [, eraText, yearText, monthText, dayText] = eraMatch;
+    const index = ERAS.findIndex((era) => era.name === eraText || era.letter === eraText.toUpperCase());
+    const era = ERAS[index];
+    const year = era.start.year + (yearText === '元' ? 1 : Number(yearText)) - 1;
+    const month = Number(monthText);
+    const day = Number(dayText);
+    if (!isValidDate(year, month, day)) return null;
+    const iso = toIsoDate(year, month, day);
+    // 元号の開始日より前、または次の元号の開始日以降は期間外
+    const nextEra = index > 0 ? ERAS[index - 1] : undefined;
+    if (iso < toEraStartIso(era) || (nextEra && iso >= toEraStartIso(nextEra))) return null;
+    return iso;
+  }
+
+  const gregorianMatch = GREGORIAN_DATE_PATTERN.exec(text) ?? COMPACT_DATE_PATTERN.exec(text);
+  if (gregorianMatch) {
+    const [year, month, day] = gregorianMatch.slice(1).map(Number);
+    return isValidDate(year, month, day) ? toIsoDate(year, month, day) : null;
+  }
+  return null;
+};
+
+/**
+ * 日付の表示形式。
+ * - 'era': 「令和6年1月2日」(明治より前の日付は西暦で表示)
+ * - 'iso': 「2024-01-02」
+ */
+export type DateDisplayStyle = 'era' | 'iso';
+
+// ISO 形式の日付を表示用の文字列にする関数。ISO 形式でない場合はそのまま返す。
+export const formatJapaneseDate = (iso: string, style: DateDisplayStyle = 'era'): string => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(iso);
+  if (!match || style === 'iso') return iso;
+  const [year, month, day] = match.slice(1).map(Number);
+  const era = ERAS.find((candidate) => iso >= toEraStartIso(candidate));
+  if (!era) return iso;
+  const eraYear = year - era.start.year + 1;
+  return `${era.name}${eraYear === 1 ? '元' : eraYear}年${month}月${day}日`;
+};
@@ -0,0 +1,223 @@
+// FullWidthNumberField の計算式モード (allowExpressions) で使う四則演算の式の評価
+// eval は使わず、字句解析と再帰下降構文解析で、10進数の文字列のまま計算する。
+import { addDecimal, divideDecimal, multiplyDecimal, subtractDecimal } from './decimal';
+import { toDecimalString } from './numberValue';
+import type { NumberSeparators } from './numberNormalizer';
+
+/**
+ * 式の解析エラーの理由。
+ * - 'invalid-character': 式に使えない文字が含まれている
+ * - 'unexpected-token': 数値・演算子・括弧の並びが正しくない
+ * - 'unexpected-end': 式が途中で終わっている (閉じ括弧の不足など)
+ * - 'division-by-zero': 0で割っている
+ * - 'too-deeply-nested': 括弧や符号の入れ子が深すぎる
+ */
+export type ExpressionErrorReason =
+  | 'invalid-character' | 'unexpected-token' | 'unexpected-end' | 'division-by-zero' | 'too-deeply-nested';
+
+/**
+ * 式の評価結果。
+ * 成功時は半角数字の文字列 (例: "1320") を、失敗時はエラーの理由と位置 (入力文字列での0始まりの位置) を返します。
+ */
+export type ExpressionResult =
+  | { ok: true; value: string }
+  | { ok: false; reason: ExpressionErrorReason; position: number; character?: string };
+
+// 全角・記号の演算子などを半角にそろえる変換表 (全角数字は別途変換する)
+const EXPRESSION_CHAR_MAP: Readonly<Record<string, string>> = {
+  '＋': '+', '﹢': '+',
+  '－': '-', '−': '-', '‐': '-', '﹣': '-',
+  '×': '*', '＊': '*', '✕': '*',
+  '÷': '/', '／': '/',
+  '（': '(', '）': ')',
+  '％': '%',
+  '．': '.', '，': ',',
+};
+
+// 式の中で無視する空白
+const EXPRESSION_WHITESPACE = new Set([' ', '\u3000', '\t']);
+
+// 数値の桁区切り文字と小数点 (省略時は en-US 相当)
+const DEFAULT_EXPRESSION_SEPARATORS: NumberSeparators = { group: ',', decimal: '.' };
+
+// 割り算の結果を求める小数点以下の桁数 (最終的な桁数は decimalPlaces の丸めで決まる)
+const DIVISION_PLACES = 20;
+
+// 括弧・符号の入れ子の上限 (再帰下降構文解析のスタックあふれを防ぐ)
+const MAX_NESTING_DEPTH = 100;
+
+type ExpressionToken =
+  | { type: 'number'; value: string; position: number }
+  | { type: 'operator'; operator: '+' | '-' | '*' | '/'; position: number }
+  | { type: 'open' | 'close' | 'percent'; position: number };
+
+// 解析の途中で失敗したことを伝えるための値 (evaluateExpression の中でのみ使用)
+interface ExpressionFailure {
+  reason: ExpressionErrorReason;
+  position: number;
+  character?: string;
+}
+
+// 解析の途中で投げた ExpressionFailure かどうか (それ以外の例外は呼び出し元に伝える)
+const isExpressionFailure = (value: unknown): value is ExpressionFailure =>
+  typeof value === 'object' && value !== null && 'reason' in value && 'position' in value;
+
+const toHalfWidthChar = (ch: string): string => {
+  const code = ch.charCodeAt(0);
+  if (code >= 0xff10 && code <= 0xff19) return String.fromCharCode(code - 0xfee0);
+  return EXPRESSION_CHAR_MAP[ch] ?? ch;
+};
+
+// 入力が計算式 ("=" または "＝" で始まる) かどうか
+export const isExpressionInput = (input: string): boolean => /^[\s\u3000]*[=＝]/.test(input);
+
+const tokenize = (input: string, start: number, separators: NumberSeparators): ExpressionToken[] => {
+  const tokens: ExpressionToken[] = [];
+  let i = start;
+  while (i < input.length) {
+    const ch = toHalfWidthChar(input[i]);
+    if (EXPRESSION_WHITESPACE.has(input[i])) {
+      i++;
+    } else if (/\d/.test(ch) || ch === separators.decimal) {
+      // 数値 (桁区切り文字は無視し、小数点は1つまで。区切り文字はロケールに従う)
+      const position = i;
+      let text = '';
+      while (i < input.length) {
+        const next = toHalfWidthChar(input[i]);
+        if (/\d/.test(next)) {
+          text += next;
+        } else if (next === separators.decimal && !text.includes('.')) {
+          text += '.';
+        } else if (next !== separators.group) {
+          break;
+        }
+        i++;
+      }
+      if (text === '.') throw { reason: 'unexpected-token', position, character: input[position] } satisfies ExpressionFailure;
+      tokens.push({ type: 'number', value: text, position });
+    } else if (ch === '+' || ch === '-' || ch === '*' || ch === '/') {
+      tokens.push({ type: 'operator', operator: ch, position: i++ });
+    } else if (ch === '(' || ch === ')' || ch === '%') {
+      tokens.push({ type: ch === '(' ? 'open' : ch === ')' ? 'close' : 'percent', position: i++ });
+    } else {
+      throw { reason: 'invalid-character', position: i, character: input[i] } satisfies ExpressionFailure;
+    }
+  }
+  return tokens;
+};
+
+/**
+ * "=" で始まる四則演算の式を評価します。
+ * 全角・半角の数字と + − × ÷ (* /)、括弧、パーセント (10% → 0.1) に対応します。
+ * 数値の桁区切り文字と小数点は separators に従います (de-DE なら "=1,5*2" → "3")。
+ * 例: "=1200*1.1" → "1320"、"＝（１０００＋５００）×８％" → "120"
+ */
+export const evaluateExpression = (
+  input: string,
+  separators: NumberSeparators = DEFAULT_EXPRESSION_SEPARATORS
+): ExpressionResult => {
+  const match = /^[\s\u3000]*[=＝]/.exec(input);
+  if (match === null) return { ok: false, reason: 'unexpected-token', position: 0, character: input[0] };
+
+  try {
+    const tokens = tokenize(input, match[0].length, separators);
+    let index = 0;
+    // 現在の括弧・符号の入れ子の深さ
+    let depth = 0;
+
+    const fail = (reason: ExpressionErrorReason): never => {
+      const token = tokens[index];
+      throw (token === undefined
+        ? { reason: 'unexpected-end', position: input.length }
+        : { reason, position: token.position, character: input[token.position] }) satisfies ExpressionFailure;
+    };
+
+    // 現在のトークンが指定した演算子のいずれかであれば、その演算子を返す
+    const peekOperator = (...operators: string[]): string | null => {
+      const token = tokens[index];
+      return token?.type === 'operator' && operators.includes(token.operator) ? token.operator : null;
+    };
+
+    // 式 = 項 (("+" | "-") 項)*
+    const parseExpression = (): string => {
+      let value = parseTerm();
+      for (let operator = peekOperator('+', '-'); operator !== null; operator = peekOperator('+', '-')) {
+        index++;
+        const right = parseTerm();
+        value = (operator === '+' ? addDecimal(value, right) : subtractDecimal(value, right)) ?? fail('unexpected-token');
+      }
+      return value;
+    };
+
+    // 項 = 因子 (("*" | "/") 因子)*
+    const parseTerm = (): string => {
+      let value = parseFactor();
+      for (let operator = peekOperator('*', '/'); operator !== null; operator = peekOperator('*', '/')) {
+        index++;
+        const divisorIndex = index;
+        const right = parseFactor();
+        if (operator === '*') {
+          value = multiplyDecimal(value, right) ?? fail('unexpected-token');
+        } else {
+          const quotient = divideDecimal(value, right, DIVISION_PLACES);
+          if (quotient === null) {
+            index = divisorIndex;
+            return fail('division-by-zero');
+          }
+          value = quotient;
+        }
+      }
+      return value;
+    };
+
+    // 入れ子の解析 (括弧の中や符号の後ろ) を深さの上限を確かめて実行する
+    const nested = (parse: () => string): string => {
+      if (depth >= MAX_NESTING_DEPTH) return fail('too-deeply-nested');
+      depth++;
+      const value = parse();
+      depth--;
+      return value;
+    };
+
+    // 因子 = ("+" | "-") 因子 | 基本要素 "%"*
+    const parseFactor = (): string => {
+      const sign = peekOperator('+', '-');
+      if (sign !== null) {
+        index++;
+        const value = nested(parseFactor);
+        return sign === '-' ? subtractDecimal('0', value) ?? fail('unexpected-token') : value;
+      }
+      let value = parsePrimary();
+      while (tokens[index]?.type === 'percent') {
+        index++;
+        value = multiplyDecimal(value, '0.01') ?? fail('unexpected-token');
+      }
+      return value;
+    };
+
+    // 基本要素 = 数値 | "(" 式 ")"
+    const parsePrimary = (): string => {
+      const token = tokens[index];
+      if (token?.type === 'number') {
+        index++;
+        return token.value;
+      }
+      if (token?.type === 'open') {
+        index++;
+        const value = nested(parseExpression);
+        if (tokens[index]?.type !== 'close') return fail('unexpected-token');
+        index++;
+        return value;
+      }
+      return fail('unexpected-token');
+    };
+
+    const value = parseExpression();
+    if (index < tokens.length) fail('unexpected-token');
+    return { ok: true, value: toDecimalString(value) ?? value };
+  } catch (failure) {
+    if (!isExpressionFailure(failure)) throw failure;
+    const { reason, position, character } = failure;
+    return { ok: false, reason, position, character };
+  }
+};
@@ -0,0 +1,243 @@
+// FullWidthNumberField のバリデーションメッセージ・表示文言のカタログ
+import type { KanjiNumberErrorReason } from './numberNormalizer';
+import type { ExpressionErrorReason } from './expression';
+
+/**
+ * メッセージの組み立てに渡されるパラメータ。
+ */
+export interface NumberFieldMessageParams {
+  /** バリデーション対象の値 (半角に正規化済み) */
+  value: string;
+  min?: number | string;
+  max?: number | string;
+  decimalPlaces?: number;
+  allowDecimal: boolean;
+  /** 漢数字・計算式の解析で問題となった文字 */
+  character?: string;
+  /** 計算式の解析で問題となった位置 (1始まりの文字数) */
+  position?: number;
+  /** 刻み幅 (createStepValidator) */
+  step?: number | string;
+  /** 比較対象の別フィールドの値とラベル (createLessThanOrEqualValidator など) */
+  other?: number | string;
+  otherLabel?: string;
+  /** グリッドの行番号 (1始まり) とエラーのあるセルの数 (FullWidthNumberGrid) */
+  row?: number;
+  errorCount?: number;
+}
+
+export type NumberFieldMessageFormatter = (params: NumberFieldMessageParams) => string;
+
+/**
+ * 郵便番号・電話番号・日付の入力欄 (FullWidthTextField) のメッセージの組み立てに渡されるパラメータ。
+ */
+export interface TextFieldMessageParams {
+  /** 入力欄の文字列 (正規化後)。ラベルなど、入力によらない文言では省略されます */
+  value?: string;
+}
+
+export type TextFieldMessageFormatter = (params: TextFieldMessageParams) => string;
+
+/**
+ * FullWidthNumberField が表示する文言の一覧。
+ */
+export interface NumberFieldMessages {
+  /** 必須入力が空の場合 */
+  required: NumberFieldMessageFormatter;
+  /** 数字・小数点・マイナス記号以外の文字が含まれる場合 (allowDecimal で文言を切り替える) */
+  invalidFormat: NumberFieldMessageFormatter;
+  /** 数値として解釈できない場合 */
+  invalidNumber: NumberFieldMessageFormatter;
+  /** 小数点以下の桁数が decimalPlaces を超える場合 */
+  tooManyDecimalPlaces: NumberFieldMessageFormatter;
+  /** min を下回る場合 */
+  belowMin: NumberFieldMessageFormatter;
+  /** max を上回る場合 */
+  aboveMax: NumberFieldMessageFormatter;
+  /** 漢数字の解析エラー (理由ごと) */
+  kanjiInvalidCharacter: NumberFieldMessageFormatter;
+  kanjiMalformed: NumberFieldMessageFormatter;
+  kanjiAmbiguous: NumberFieldMessageFormatter;
+  /** 計算式 (allowExpressions) の解析エラー (理由ごと) */
+  expressionInvalidCharacter: NumberFieldMessageFormatter;
+  expressionUnexpectedToken: NumberFieldMessageFormatter;
+  expressionUnexpectedEnd: NumberFieldMessageFormatter;
+  expressionDivisionByZero: NumberFieldMessageFormatter;
+  expressionTooDeeplyNested: NumberFieldMessageFormatter;
+  /** 刻み幅の倍数でない場合 (createStepValidator) */
+  stepMismatch: NumberFieldMessageFormatter;
+  /** 入力できない値の場合 (createExcludedValuesValidator) */
+  excludedValue: NumberFieldMessageFormatter;
+  /** 別フィールドの値を上回る場合 (createLessThanOrEqualValidator) */
+  aboveOther: NumberFieldMessageFormatter;
+  /** 別フィールドの値を下回る場合 (createGreaterThanOrEqualValidator) */
+  belowOther: NumberFieldMessageFormatter;
+  /** 非同期のバリデーションが失敗 (例外・通信エラー) した場合 */
+  validatorFailed: NumberFieldMessageFormatter;
+  /** 厳格な入力モード (strictInput) で入力を受け付けなかった場合 (character に受け付けなかった文字) */
+  inputRejected: NumberFieldMessageFormatter;
+  /** 全角文字などを半角の数値に変換したことの読み上げ (value に変換後の値) */
+  convertedAnnouncement: NumberFieldMessageFormatter;
+  /** 丸めや範囲外の値の切り詰めで値を変えたことの読み上げ (value に確定した値) */
+  adjustedAnnouncement: NumberFieldMessageFormatter;
+  /** 増減ボタンのアクセシブルな名前 */
+  incrementLabel: NumberFieldMessageFormatter;
+  decrementLabel: NumberFieldMessageFormatter;
+  /** エラーがなく、helperText も指定されていない場合の補助テキスト */
+  defaultHelperText: NumberFieldMessageFormatter;
+  /** FullWidthNumberRangeField の下限・上限の入力欄のラベル (fromLabel / toLabel が指定されていない場合) */
+  rangeFromLabel: NumberFieldMessageFormatter;
+  rangeToLabel: NumberFieldMessageFormatter;
+  /** FullWidthNumberGrid の行ラベル (rowLabels が指定されていない場合) とエラーの一覧の見出し */
+  gridRowLabel: NumberFieldMessageFormatter;
+  gridErrorSummary: NumberFieldMessageFormatter;
+  /** 郵便番号・電話番号・日付の入力欄のラベル (label が指定されていない場合) */
+  postalCodeLabel: TextFieldMessageFormatter;
+  phoneNumberLabel: TextFieldMessageFormatter;
+  dateLabel: TextFieldMessageFormatter;
+  /** 郵便番号・電話番号・日付の入力欄で、必須入力が空の場合 */
+  textFieldRequired: TextFieldMessageFormatter;
+  /** 郵便番号・電話番号・日付として解釈できない場合 (value に正規化後の入力) */
+  invalidPostalCode: TextFieldMessageFormatter;
+  invalidPhoneNumber: TextFieldMessageFormatter;
+  invalidDate: TextFieldMessageFormatter;
+  /** label が指定されていない場合のラベル */
+  defaultLabel: NumberFieldMessageFormatter;
+  /** placeholder が指定されていない場合のプレースホルダー */
+  defaultPlaceholder: NumberFieldMessageFormatter;
+}
+
+export type NumberFieldLanguage = 'ja' | 'en';
+
+// 日本語 (既定)
+export const jaMessages: NumberFieldMessages = {
+  required: () => '入力は必須です。',
+  invalidFormat: ({ allowDecimal }) => allowDecimal
+    ? '有効な半角数字、小数点、マイナス記号のみが許容されます。'
+    : '有効な半角整数、マイナス記号のみが許容されます。',
+  invalidNumber: () => '有効な半角数字を入力してください。',
+  tooManyDecimalPlaces: ({ decimalPlaces }) => `小数点以下は${decimalPlaces}桁までです。`,
+  belowMin: ({ min }) => `${min}以上の値を入力してください。`,
+  aboveMax: ({ max }) => `${max}以下の値を入力してください。`,
+  kanjiInvalidCharacter: ({ character }) => `数値として解釈できない文字「${character}」が含まれています。`,
+  kanjiMalformed: () => '漢数字の表記が正しくありません。',
+  kanjiAmbiguous: () => '漢数字の表記が曖昧です。「千二百」や「1.5万」のように入力してください。',
+  expressionInvalidCharacter: ({ position, character }) => `計算式の${position}文字目「${character}」は使用できません。`,
+  expressionUnexpectedToken: ({ position, character }) => `計算式の${position}文字目「${character}」の位置が正しくありません。`,
+  expressionUnexpectedEnd: () => '計算式が途中で終わっています。',
+  expressionDivisionByZero: ({ position }) => `計算式の${position}文字目で0による割り算をしています。`,
+  expressionTooDeeplyNested: ({ position }) => `計算式の${position}文字目で括弧や符号の入れ子が深すぎます。`,
+  stepMismatch: ({ step }) => `${step}単位で入力してください。`,
+  excludedValue: ({ value }) => `${value}は入力できません。`,
+  aboveOther: ({ other, otherLabel }) => `${otherLabel ?? other}以下の値を入力してください。`,
+  belowOther: ({ other, otherLabel }) => `${otherLabel ?? other}以上の値を入力してください。`,
+  validatorFailed: () => '値を検証できませんでした。時間をおいて再度お試しください。',
+  inputRejected: ({ character }) => `「${character}」は入力できません。`,
+  convertedAnnouncement: ({ value }) => `${value}に変換しました。`,
+  adjustedAnnouncement: ({ value }) => `${value}に調整しました。`,
+  incrementLabel: () => '増やす',
+  decrementLabel: () => '減らす',
+  defaultHelperText: ({ allowDecimal }) => allowDecimal
+    ? '全角数字も半角に変換されます。'
+    : '全角整数も半角に変換されます。',
+  rangeFromLabel: () => '下限',
+  rangeToLabel: () => '上限',
+  gridRowLabel: ({ row }) => `${row}行目`,
+  gridErrorSummary: ({ errorCount }) => `${errorCount}件のセルに入力エラーがあります。`,
+  postalCodeLabel: () => '郵便番号',
+  phoneNumberLabel: () => '電話番号',
+  dateLabel: () => '日付',
+  textFieldRequired: () => '入力は必須です。',
+  invalidPostalCode: () => '郵便番号は7桁の数字で入力してください。',
+  invalidPhoneNumber: () => '電話番号は0から始まる10桁または11桁の数字で入力してください。',
+  invalidDate: () => '日付は「令和6年1月2日」「R6.1.2」「2024/1/2」のように入力してください。',
+  defaultLabel: () => '数値',
+  defaultPlaceholder: () => '全角数字も入力できます',
+};
+
+// 英語
+export const enMessages: NumberFieldMessages = {
+  required: () => 'This field is required.',
+  invalidFormat: ({ allowDecimal }) => allowDecimal
+    ? 'Only digits, a decimal point and a leading minus sign are allowed.'
+    : 'Only whole numbers with an optional leading minus sign are allowed.',
+  invalidNumber: () => 'Enter a valid number.',
+  tooManyDecimalPlaces: ({ decimalPlaces }) =>
+    `Enter at most ${decimalPlaces} decimal place${decimalPlaces === 1 ? '' : 's'}.`,
+  belowMin: ({ min }) => `Enter a value of ${min} or more.`,
+  aboveMax: ({ max }) => `Enter a value of ${max} or less.`,
+  kanjiInvalidCharacter: ({ character }) => `"${character}" cannot be read as part of a number.`,
+  kanjiMalformed: () => 'The kanji numeral is not written correctly.',
+  kanjiAmbiguous: () => 'The kanji numeral is ambiguous. Write it like "千二百" or "1.5万".',
+  expressionInvalidCharacter: ({ position, character }) =>
+    `"${character}" at position ${position} cannot be used in a calculation.`,
+  expressionUnexpectedToken: ({ position, character }) => `Unexpected "${character}" at position ${position}.`,
+  expressionUnexpectedEnd: () => 'The calculation is incomplete.',
+  expressionDivisionByZero: ({ position }) => `Division by zero at position ${position}.`,
+  expressionTooDeeplyNested: ({ position }) => `Too many nested parentheses or signs at position ${position}.`,
+  stepMismatch: ({ step }) => `Enter a multiple of ${step}.`,
+  excludedValue: ({ value }) => `${value} is not allowed.`,
+  aboveOther: ({ other, otherLabel }) => `Enter a value no greater than ${otherLabel ?? other}.`,
+  belowOther: ({ other, otherLabel }) => `Enter a value no less than ${otherLabel ?? other}.`,
+  validatorFailed: () => 'The value could not be checked. Please try again later.',
+  inputRejected: ({ character }) => `"${character}" cannot be entered here.`,
+  convertedAnnouncement: ({ value }) => `Converted to ${value}.`,
+  adjustedAnnouncement: ({ value }) => `Adjusted to ${value}.`,
+  incrementLabel: () => 'Increase',
+  decrementLabel: () => 'Decrease',
+  defaultHelperText: ({ allowDecimal }) => allowDecimal
+    ? 'Full-width digits are converted automatically.'
+    : 'Full-width whole numbers are converted automatically.',
+  rangeFromLabel: () => 'From',
+  rangeToLabel: () => 'To',
+  gridRowLabel: ({ row }) => `Row ${row}`,
+  gridErrorSummary: ({ errorCount }) => `${errorCount} cell${errorCount === 1 ? ' has' : 's have'} errors.`,
+  postalCodeLabel: () => 'Postal code',
+  phoneNumberLabel: () => 'Phone number',
+  dateLabel: () => 'Date',
+  textFieldRequired: () => 'This field is required.',
+  invalidPostalCode: () => 'Enter a 7-digit postal code.',
+  invalidPhoneNumber: () => 'Enter a 10- or 11-digit phone number starting with 0.',
+  invalidDate: () => 'Enter a date like "令和6年1月2日", "R6.1.2" or "2024/1/2".',
+  defaultLabel: () => 'Number',
+  defaultPlaceholder: () => 'Full-width digits are accepted',
+};
+
+export const builtInMessages: Readonly<Record<NumberFieldLanguage, NumberFieldMessages>> = {
+  ja: jaMessages,
+  en: enMessages,
+};
+
+// 漢数字の解析エラーの理由に対応するメッセージを返す関数
+export const getKanjiErrorMessage = (
+  messages: NumberFieldMessages,
+  reason: KanjiNumberErrorReason
+): NumberFieldMessageFormatter => {
+  switch (reason) {
+    case 'invalid-character':
+      return messages.kanjiInvalidCharacter;
+    case 'malformed':
+      return messages.kanjiMalformed;
+    case 'ambiguous':
+      return messages.kanjiAmbiguous;
+  }
+};
+
+// 計算式の解析エラーの理由に対応するメッセージを返す関数
+export const getExpressionErrorMessage = (
+  messages: NumberFieldMessages,
+  reason: ExpressionErrorReason
+): NumberFieldMessageFormatter => {
+  switch (reason) {
+    case 'invalid-character':
+      return messages.expressionInvalidCharacter;
+    case 'unexpected-token':
+      return messages.expressionUnexpectedToken;
+    case 'unexpected-end':
+      return messages.expressionUnexpectedEnd;
+    case 'division-by-zero':
+      return messages.expressionDivisionByZero;
+    case 'too-deeply-nested':
+      return messages.expressionTooDeeplyNested;
+  }
+};
@@ -0,0 +1,16 @@
+import { createContext, useContext, useMemo } from 'react';
+import type { NumberFieldMessages } from './messages';
+import { jaMessages } from './messages';
+
+// NumberFieldMessagesProvider から配下のフィールドに渡されるメッセージ
+// Provider がない場合は日本語のメッセージを使う。
+export const NumberFieldMessagesContext = createContext<NumberFieldMessages>(jaMessages);
+
+// Provider のメッセージに、フィールドごとの上書き分をマージして返すフック
+export const useNumberFieldMessages = (overrides?: Partial<NumberFieldMessages>): NumberFieldMessages => {
+  const contextMessages = useContext(NumberFieldMessagesContext);
+  return useMemo(
+    () => (overrides ? { ...contextMessages, ...overrides } : contextMessages),
+    [contextMessages, overrides]
+  );
+};
@@ -0,0 +1,27 @@
+// 数値の表示上の装飾 (負数の表記) を扱うユーティリティ
+
+/**
+ * 負数の表記。
+ * - 'minus': "-1,234"
+ * - 'triangle': "△1,234" (会計表記)
+ * - 'filled-triangle': "▲1,234" (会計表記)
+ * - 'parentheses': "(1,234)"
+ */
+export type NegativeStyle = 'minus' | 'triangle' | 'filled-triangle' | 'parentheses';
+
+// フォーマット済みの数値文字列の先頭のマイナス記号を、指定された負数の表記に置き換える関数
+// 入力途中の "-" だけの値も同じ表記にする ("(" のみ、"△" のみ)。
+export const applyNegativeStyle = (formatted: string, negativeStyle: NegativeStyle): string => {
+  if (!formatted.startsWith('-')) return formatted;
+  const unsigned = formatted.slice(1);
+  switch (negativeStyle) {
+    case 'minus':
+      return formatted;
+    case 'triangle':
+      return `△${unsigned}`;
+    case 'filled-triangle':
+      return `▲${unsigned}`;
+    case 'parentheses':
+      return unsigned === '' ? '(' : `(${unsigned})`;
+  }
+};
@@ -0,0 +1,164 @@
+// 数値の表示用のフォーマットと、表示用の文字列の解析を行う関数群
+// FullWidthNumberField の表示と同じ規則 (桁区切り・小数点以下の桁数・丸め・通貨記号・負数の表記) を、
+// 表やCSV出力など React の外でも使えるようにする。
+import type { RoundingMode } from './decimal';
+import { formatDecimal, multiplyDecimal, parseDecimal, roundDecimal } from './decimal';
+import { DEFAULT_NUMBER_LOCALE, getNumberLocaleSymbols } from './numberLocale';
+import { hasKanjiNumerals, normalizeAndRemoveCommas, parseKanjiNumber, stripAffixes } from './numberNormalizer';
+import type { NegativeStyle } from './numberDisplay';
+import { applyNegativeStyle } from './numberDisplay';
+import { toDecimalString } from './numberValue';
+
+/**
+ * 数値のフォーマット・解析のオプション。FullWidthNumberField の同名の Props と同じ意味です。
+ */
+export interface NumberFormatOptions {
+  /** 小数を表示・受け付けるかどうか。デフォルトはtrue。falseの場合は整数に丸めて表示します */
+  allowDecimal?: boolean;
+  /** 小数点以下の桁数。指定した場合は roundingMode で丸め、不足分を0埋めして表示します */
+  decimalPlaces?: number;
+  /** decimalPlaces の桁数に丸める方法。デフォルトは'half-up' (四捨五入) */
+  roundingMode?: RoundingMode;
+  /** Numberを経由せず、10進数文字列のまま桁区切りするかどうか。デフォルトはfalse */
+  exactDecimal?: boolean;
+  /** 桁区切り文字・小数点・桁区切りの間隔のロケール。デフォルトは'en-US' */
+  locale?: string;
+  /** 桁区切りをするかどうか。デフォルトはtrue。CSV出力などで区切りが不要な場合はfalse */
+  useGrouping?: boolean;
+  /** 数値の前に付ける接頭辞 (例: "¥")。負数の符号よりも前に付きます */
+  prefix?: string;
+  /** 数値の後ろに付ける接尾辞・単位 (例: "円")。percent の場合のデフォルトは "%" */
+  suffix?: string;
+  /** 値を100倍した百分率で表示するかどうか (0.125 → 12.5%)。デフォルトはfalse */
+  percent?: boolean;
+  /** 負数の表記。デフォルトは'minus' */
+  negativeStyle?: NegativeStyle;
+  /** 漢数字や万/億/兆の位を含む表記を解釈するかどうか (parseNumber のみ)。デフォルトはfalse */
+  allowKanjiNumerals?: boolean;
+}
+
+// 数値をカンマ区切り文字列にフォーマットする関数
+// 桁区切り文字・小数点・桁区切りの間隔は locale に従う。
+// exactDecimal が true の場合は Number を経由せず、文字列のまま桁区切りする。
+export const formatNumberWithCommas = (
+  value: string,
+  allowDecimal: boolean,
+  decimalPlaces?: number,
+  exactDecimal: boolean = false,
+  locale: string = DEFAULT_NUMBER_LOCALE
+): string => {
+  if (value === null || value === undefined) return '';
+  const valStr = String(value);
+  const { decimal } = getNumberLocaleSymbols(locale);
+
+  if (valStr === '' || valStr === '-') return valStr;
+  if (valStr === '.' || valStr === '-.') return valStr.replace('.', decimal);
+
+  if (exactDecimal) return formatDecimal(valStr, allowDecimal, decimalPlaces, getNumberLocaleSymbols(locale));
+
+  const num = Number(valStr);
+
+  if (isNaN(num)) {
+    // Number() で NaN になるが、部分的にフォーマット可能な場合 (例: "123invalid")
+    // 基本的にはバリデーションでエラーになるはず。
+    const parts = valStr.split('.');
+    const integerPart = parts[0];
+    const potentialDecimalPart = parts.length > 1 ? parts[1] : undefined;
+    const intNumCheck = Number(integerPart);
+    if (integerPart !== '' && !isNaN(intNumCheck)) {
+      const formattedInt = Number(integerPart).toLocaleString(locale, {
+        maximumFractionDigits: 0,
+        numberingSystem: 'latn',
+      });
+      if (allowDecimal && potentialDecimalPart !== undefined) {
+        return `${formattedInt}${decimal}${potentialDecimalPart}`;
+      }
+      return formattedInt;
+    }
+    return valStr; // フォーマット不能ならそのまま
+  }
+
+  // 有効な数値の場合 (アラビア数字以外の数字体系のロケールでも半角数字で表示する)
+  const options: Intl.NumberFormatOptions = { numberingSystem: 'latn' };
+  if (!allowDecimal) {
+    options.minimumFractionDigits = 0;
+    options.maximumFractionDigits = 0;
+  } else {
+    if (decimalPlaces !== undefined) {
+      // 桁数を超える小数部は丸めずに表示し、丸めはフォーカスアウト時の確定処理に任せる
+      const fractionLength = (valStr.split('.')[1] ?? '').length;
+      options.minimumFractionDigits = decimalPlaces;
+      options.maximumFractionDigits = Math.max(decimalPlaces, fractionLength);
+    } else {
+      const decimalPartStr = valStr.split('.')[1];
+      if (decimalPartStr) {
+        options.minimumFractionDigits = decimalPartStr.length;
+        options.maximumFractionDigits = decimalPartStr.length;
+      } else {
+        options.minimumFractionDigits = 0;
+        options.maximumFractionDigits = 0;
+      }
+    }
+  }
+  return num.toLocaleString(locale, options);
+};
+
+// 値を百分率の値にする関数 (0.125 → 12.5)。数値として解釈できない値はそのまま返す。
+export const scaleToPercent = (value: string): string => {
+  if (parseDecimal(value) === null) return value;
+  return toDecimalString(multiplyDecimal(value, '100') ?? value) ?? value;
+};
+
+// 百分率の値を元の値にする関数 (12.5 → 0.125)。数値として解釈できない値はそのまま返す。
+export const scaleFromPercent = (value: string): string => {
+  if (parseDecimal(value) === null) return value;
+  return toDecimalString(multiplyDecimal(value, '0.01') ?? value) ?? value;
+};
+
+/**
+ * 数値を FullWidthNumberField で確定した値と同じ表記の文字列にフォーマットします。
+ * 入力欄では接頭辞・接尾辞を数値の外側 (負数の表記も含めた前後) に表示するため、ここでも同じ並びにします。
+ * 全角数字やカンマを含む文字列も受け付けます。数値として解釈できない値は正規化した文字列をそのまま返します。
+ * 例: formatNumber(-1234.5, { decimalPlaces: 2, prefix: '¥', negativeStyle: 'triangle' }) → "¥△1,234.50"
+ */
+export const formatNumber = (
+  value: string | number | bigint | null | undefined,
+  options: NumberFormatOptions = {}
+): string => {
+  const {
+    allowDecimal = true, decimalPlaces, roundingMode = 'half-up', exactDecimal = false,
+    locale = DEFAULT_NUMBER_LOCALE, useGrouping = true, prefix, suffix, percent = false, negativeStyle = 'minus',
+  } = options;
+  const normalized = normalizeAndRemoveCommas(value);
+  if (parseDecimal(normalized) === null) return normalized;
+
+  // 表示では確定時と同じ方法で小数点以下の桁数をそろえる
+  const scaled = percent ? scaleToPercent(normalized) : normalized;
+  const places = allowDecimal ? decimalPlaces : 0;
+  const rounded = places !== undefined ? roundDecimal(scaled, places, roundingMode) : scaled;
+
+  const formatted = formatNumberWithCommas(rounded, allowDecimal, decimalPlaces, exactDecimal, locale);
+  const grouped = useGrouping ? formatted : formatted.split(getNumberLocaleSymbols(locale).group).join('');
+  const effectiveSuffix = suffix ?? (percent ? '%' : '');
+  return `${prefix ?? ''}${applyNegativeStyle(grouped, negativeStyle)}${effectiveSuffix}`;
+};
+
+/**
+ * formatNumber や FullWidthNumberField で表示した文字列を、正規形の10進数文字列に戻します。
+ * 接頭辞・接尾辞、ロケールの桁区切り、全角数字、負数の表記 (△▲、括弧) を取り除いて解釈し、
+ * percent の場合は1/100の値を返します。allowKanjiNumerals の場合は漢数字も解釈します。数値として解釈できない場合は null を返します。
+ * 例: parseNumber('¥△1,234.50', { prefix: '¥' }) → "-1234.5"
+ */
+export const parseNumber = (input: string, options: NumberFormatOptions = {}): string | null => {
+  const {
+    allowDecimal = true, locale = DEFAULT_NUMBER_LOCALE, prefix, suffix, percent = false, allowKanjiNumerals = false,
+  } = options;
+  const normalized = normalizeAndRemoveCommas(
+    stripAffixes(input, { prefix, suffix: suffix ?? (percent ? '%' : undefined) }),
+    getNumberLocaleSymbols(locale)
+  );
+  const kanjiResult = allowKanjiNumerals && hasKanjiNumerals(normalized) ? parseKanjiNumber(normalized) : null;
+  const value = toDecimalString(kanjiResult?.ok ? kanjiResult.value : normalized);
+  if (value === null || (!allowDecimal && value.includes('.'))) return null;
+  return percent ? scaleFromPercent(value) : value;
+};
@@ -0,0 +1,42 @@
+// ロケールごとの数値表記 (桁区切り文字、小数点、桁区切りの間隔) を扱うユーティリティ
+
+/**
+ * ロケールの数値表記に使われる記号と桁区切りの間隔。
+ */
+export interface NumberLocaleSymbols {
+  /** 桁区切り文字 (en-US: ",", de-DE: ".") */
+  group: string;
+  /** 小数点 (en-US: ".", de-DE: ",") */
+  decimal: string;
+  /** 最下位の桁区切りの間隔 (通常は3) */
+  primaryGroupSize: number;
+  /** 2つ目以降の桁区切りの間隔 (en-IN のラク・クロールでは2) */
+  secondaryGroupSize: number;
+}
+
+// 従来の表記 (en-US 相当)
+export const DEFAULT_NUMBER_LOCALE = 'en-US';
+
+const symbolsCache = new Map<string, NumberLocaleSymbols>();
+
+// ロケールの数値表記をIntl.NumberFormatから取得する関数
+// アラビア数字以外の数字体系を持つロケールでも、数字は常に半角のアラビア数字 (latn) を使う。
+export const getNumberLocaleSymbols = (locale: string = DEFAULT_NUMBER_LOCALE): NumberLocaleSymbols => {
+  const cached = symbolsCache.get(locale);
+  if (cached) return cached;
+
+  const formatter = new Intl.NumberFormat(locale, { numberingSystem: 'latn', useGrouping: true });
+  const parts = formatter.formatToParts(1234567890.5);
+  const group = parts.find((part) => part.type === 'group')?.value ?? ',';
+  const decimal = parts.find((part) => part.type === 'decimal')?.value ?? '.';
+  // 整数部の区切りごとの桁数から、桁区切りの間隔を求める ("1,23,45,67,890" → 3, 2)
+  const integerSizes = parts
+    .filter((part) => part.type === 'integer')
+    .map((part) => part.value.length);
+  const primaryGroupSize = integerSizes[integerSizes.length - 1] ?? 3;
+  const secondaryGroupSize = integerSizes.length > 2 ? integerSizes[integerSizes.length - 2] : primaryGroupSize;
+
+  const symbols: NumberLocaleSymbols = { group, decimal, primaryGroupSize, secondaryGroupSize };
+  symbolsCache.set(locale, symbols);
+  return symbols;
+};
@@ -0,0 +1,339 @@
+// 数値入力の正規化ユーティリティ
+// Reactに依存しない純粋関数として切り出し、APIレイヤーなどからも再利用できるようにする。
+
+// 1文字単位の置換テーブル (変換元 → 変換先)
+// 値が空文字のものは除去対象 (空白類)。
+// カンマ類は半角カンマにそろえ、桁区切りか小数点かはロケールの区切り文字で判断する。
+const NUMERIC_CHAR_MAP: Readonly<Record<string, string>> = {
+  // 全角数字
+  '０': '0', '１': '1', '２': '2', '３': '3', '４': '4',
+  '５': '5', '６': '6', '７': '7', '８': '8', '９': '9',
+  // 小数点
+  '．': '.', // U+FF0E 全角ピリオド
+  '﹒': '.', // U+FE52 小型ピリオド
+  // マイナス記号
+  '－': '-', // U+FF0D 全角ハイフンマイナス
+  '−': '-', // U+2212 マイナス記号
+  '‐': '-', // U+2010 ハイフン
+  '‑': '-', // U+2011 ノーブレークハイフン
+  '‒': '-', // U+2012 フィギュアダッシュ
+  '–': '-', // U+2013 enダッシュ
+  '﹣': '-', // U+FE63 小型ハイフンマイナス
+  // 括弧 (会計表記の負数)
+  '（': '(',
+  '）': ')',
+  // プラス記号
+  '＋': '+', // U+FF0B 全角プラス
+  '﹢': '+', // U+FE62 小型プラス
+  // カンマ類
+  '，': ',', // U+FF0C 全角カンマ
+  '、': ',', // U+3001 読点
+  '､': ',', // U+FF64 半角読点
+  '﹐': ',', // U+FE50 小型カンマ
+  // 空白類 (除去)
+  ' ': '',
+  '\u3000': '', // 全角スペース
+  '\u00A0': '', // ノーブレークスペース
+  '\u2007': '', // フィギュアスペース
+  '\u2009': '', // シンスペース
+  '\u200A': '', // ヘアスペース
+  '\u202F': '', // 狭いノーブレークスペース
+  '\t': '',
+};
+
+/**
+ * 入力で受け付ける桁区切り文字と小数点。
+ */
+export interface NumberSeparators {
+  group: string;
+  decimal: string;
+}
+
+// 従来どおりカンマを桁区切り、ピリオドを小数点とする
+const DEFAULT_SEPARATORS: NumberSeparators = { group: ',', decimal: '.' };
+
+// 先頭にある場合のみマイナス記号として扱う文字 (長音記号、会計表記の△▲)
+// 「１ー２」のような位置の長音はマイナスとみなさず、バリデーションでエラーにする。
+const LEADING_MINUS_CHARS = ['ー', 'ｰ', '△', '▲'];
+
+// 入力値を正規化する関数 (全角→半角、カンマ・空白除去)
+// 変換ロジックを、入力途中の可能性を考慮し、最低限の文字変換に留める。
+// separators を指定すると、そのロケールの桁区切り文字を除去し、小数点を "." に変換する
+// (de-DE なら "1.234,5" → "1234.5")。
+// テーブルにない文字はそのまま保持する。数字、小数点、マイナス記号以外の文字の判定は
+// バリデーションの役割。
+export const normalizeAndRemoveCommas = (
+  input: string | number | bigint | null | undefined,
+  separators: NumberSeparators = DEFAULT_SEPARATORS
+): string => {
+  if (input === undefined || input === null) return '';
+  let str = Array.from(String(input), (ch) => {
+    const mapped = NUMERIC_CHAR_MAP[ch] ?? ch;
+    if (mapped === separators.group) return '';
+    if (mapped === separators.decimal) return '.';
+    return mapped;
+  }).join('');
+  // 先頭の長音記号・△▲はマイナスとみなす
+  if (LEADING_MINUS_CHARS.includes(str.charAt(0))) {
+    str = `-${str.slice(1)}`;
+  }
+  // 括弧で囲まれた会計表記の負数 ("(1234)" → "-1234")
+  // 入力途中で閉じ括弧の後ろに数字が続いても、閉じ括弧を除いて解釈する。
+  if (str.startsWith('(')) {
+    str = `-${str.slice(1).replace(/\)/g, '')}`;
+  } else if (str.endsWith(')')) {
+    // 開き括弧を削除した後に残った閉じ括弧は除き、正の数として解釈する ("1,234)" → "1234")
+    str = str.replace(/\)+$/, '');
+  }
+  // 先頭のプラス記号は冗長なので除去 ("+123" → "123")
+  if (str.startsWith('+')) {
+    str = str.slice(1);
+  }
+  return str;
+};
+
+// 先頭の符号として扱う文字 (stripAffixes で、符号の後ろにある接頭辞も除去するため)
+const SIGN_CHARS = ['-', '+', '(', '－', '−', '＋', '（', ...LEADING_MINUS_CHARS];
+
+// 全角・半角の違いを無視して文字列を比較するための正規化 ("￥" と "¥"、"ｋｇ" と "kg" など)
+const foldWidth = (str: string): string => str.normalize('NFKC');
+
+/**
+ * 数値の前後に付く表示上の装飾 (通貨記号や単位)。
+ */
+export interface NumberAffixes {
+  /** 接頭辞 (例: "¥") */
+  prefix?: string;
+  /** 接尾辞 (例: "円", "kg", "%") */
+  suffix?: string;
+}
+
+// 入力値から接頭辞・接尾辞を除去する関数 ("△¥1,234円" → "△1,234")
+// 接頭辞は先頭または先頭の符号の直後、接尾辞は末尾または末尾の閉じ括弧の直前にあるものを除去する。
+// 全角・半角の違いは無視する。それ以外の文字は変換しないため、続けて normalizeAndRemoveCommas を適用する。
+export const stripAffixes = (input: string, { prefix, suffix }: NumberAffixes): string => {
+  let str = input.trim();
+  if (prefix) {
+    const signLength = SIGN_CHARS.includes(str.charAt(0)) ? 1 : 0;
+    const candidate = str.slice(signLength, signLength + prefix.length);
+    if (foldWidth(candidate) === foldWidth(prefix)) {
+      str = (str.slice(0, signLength) + str.slice(signLength + prefix.length)).trim();
+    }
+  }
+  if (suffix) {
+    const closingLength = /[)）]$/.test(str) ? 1 : 0;
+    const end = str.length - closingLength;
+    const candidate = str.slice(end - suffix.length, end);
+    if (foldWidth(candidate) === foldWidth(suffix)) {
+      str = (str.slice(0, end - suffix.length).trim() + str.slice(end)).trim();
+    }
+  }
+  return str;
+};
+
+// 漢数字の数字 (位取りなし) と対応する値
+const KANJI_DIGITS: Readonly<Record<string, number>> = {
+  '〇': 0, '零': 0,
+  '一': 1, '壱': 1,
+  '二': 2, '弐': 2,
+  '三': 3, '参': 3,
+  '四': 4, '五': 5, '六': 6, '七': 7, '八': 8, '九': 9,
+};
+
+// 小さい位 (十・百・千) の指数
+const KANJI_SMALL_UNITS: Readonly<Record<string, number>> = {
+  '十': 1, '拾': 1,
+  '百': 2,
+  '千': 3,
+};
+
+// 大きい位 (万・億・兆) の指数
+const KANJI_LARGE_UNITS: Readonly<Record<string, number>> = {
+  '万': 4, '萬': 4,
+  '億': 8,
+  '兆': 12,
+};
+
+/**
+ * 漢数字の解析エラーの理由。
+ * - 'invalid-character': 数値として解釈できない文字が含まれている
+ * - 'malformed': 位の順序や係数が正しくない (「万」単独、「百百」など)
+ * - 'ambiguous': 複数の解釈ができる (「二三百」「千25」「1.5万2千」など)
+ */
+export type KanjiNumberErrorReason = 'invalid-character' | 'malformed' | 'ambiguous';
+
+/**
+ * 漢数字の解析結果。
+ * 成功時は半角数字の文字列 (例: "12500") を、失敗時はエラーの理由を返します。
+ * 表示用のメッセージは、メッセージカタログ (messages.ts) で理由から組み立てます。
+ */
+export type KanjiNumberParseResult =
+  | { ok: true; value: string }
+  | { ok: false; reason: KanjiNumberErrorReason; character?: string };
+
+// 漢数字または位の文字かどうか (1文字)
+export const isKanjiNumeralChar = (ch: string): boolean =>
+  ch in KANJI_DIGITS || ch in KANJI_SMALL_UNITS || ch in KANJI_LARGE_UNITS;
+
+// 漢数字または位の文字が含まれているかどうか
+export const hasKanjiNumerals = (input: string): boolean =>
+  Array.from(input).some(isKanjiNumeralChar);
+
+// 桁あふれを避けるため、10進数を BigInt の仮数と小数点以下桁数で保持する
+interface ScaledDecimal {
+  digits: bigint;
+  scale: number;
+}
+
+const toScaledDecimal = (numeric: string): ScaledDecimal => {
+  const [intPart, fracPart = ''] = numeric.split('.');
+  return { digits: BigInt(intPart + fracPart), scale: fracPart.length };
+};
+
+const addScaled = (a: ScaledDecimal, b: ScaledDecimal): ScaledDecimal => {
+  const scale = Math.max(a.scale, b.scale);
+  return {
+    digits: a.digits * 10n ** BigInt(scale - a.scale) + b.digits * 10n ** BigInt(scale - b.scale),
+    scale,
+  };
+};
+
+const shiftScaled = (a: ScaledDecimal, exponent: number): ScaledDecimal => ({
+  digits: a.digits * 10n ** BigInt(exponent),
+  scale: a.scale,
+});
+
+const scaledToString = (a: ScaledDecimal): string => {
+  const padded = a.digits.toString().padStart(a.scale + 1, '0');
+  const intPart = padded.slice(0, padded.length - a.scale);
+  const fracPart = padded.slice(padded.length - a.scale).replace(/0+$/, '');
+  return fracPart ? `${intPart}.${fracPart}` : intPart;
+};
+
+type KanjiToken =
+  | { type: 'number'; text: string; isKanji: boolean }
+  | { type: 'small'; exponent: number }
+  | { type: 'large'; exponent: number };
+
+const MALFORMED_KANJI_ERROR: KanjiNumberParseResult = { ok: false, reason: 'malformed' };
+const AMBIGUOUS_KANJI_ERROR: KanjiNumberParseResult = { ok: false, reason: 'ambiguous' };
+
+/**
+ * 漢数字・万/億/兆の位を含む表記を半角数字の文字列に変換します。
+ * 「一万二千五百」「1.5万」「3億2000万」「百二十」「二〇二四」のような表記に対応します。
+ * 入力は事前に normalizeAndRemoveCommas と同じ正規化 (全角数字、カンマ除去など) が行われます。
+ */
+export const parseKanjiNumber = (input: string): KanjiNumberParseResult => {
+  let str = normalizeAndRemoveCommas(input);
+  let sign = '';
+  if (str.startsWith('-')) {
+    sign = '-';
+    str = str.slice(1);
+  }
+  if (str === '') return MALFORMED_KANJI_ERROR;
+
+  // 字句解析: 数字の並び (半角数字または漢数字) と位に分割する
+  const tokens: KanjiToken[] = [];
+  for (const ch of str) {
+    const last = tokens[tokens.length - 1];
+    if (/[0-9.]/.test(ch)) {
+      if (last?.type === 'number' && !last.isKanji) {
+        last.text += ch;
+      } else {
+        tokens.push({ type: 'number', text: ch, isKanji: false });
+      }
+    } else if (ch in KANJI_DIGITS) {
+      if (last?.type === 'number' && last.isKanji) {
+        last.text += String(KANJI_DIGITS[ch]);
+      } else {
+        tokens.push({ type: 'number', text: String(KANJI_DIGITS[ch]), isKanji: true });
+      }
+    } else if (ch in KANJI_SMALL_UNITS) {
+      tokens.push({ type: 'small', exponent: KANJI_SMALL_UNITS[ch] });
+    } else if (ch in KANJI_LARGE_UNITS) {
+      tokens.push({ type: 'large', exponent: KANJI_LARGE_UNITS[ch] });
+    } else {
+      return { ok: false, reason: 'invalid-character', character: ch };
+    }
+  }
+
+  let total: ScaledDecimal = { digits: 0n, scale: 0 };
+  let section: ScaledDecimal = { digits: 0n, scale: 0 };
+  let sectionHasContent = false;
+  let sectionHasSmallUnit = false;
+  let lastSmallExponent = Infinity;
+  let lastLargeExponent = Infinity;
+  // 直前の数字の並び (位が付くのを待っている係数)
+  let pending: { value: ScaledDecimal; isSingleDigit: boolean; isDecimal: boolean } | null = null;
+  // 小数の係数を使った後は、より大きい位以外を続けられない ("1.5万2千" は曖昧とみなす)
+  let decimalConsumed = false;
+
+  for (const token of tokens) {
+    if (decimalConsumed && token.type !== 'large') {
+      return AMBIGUOUS_KANJI_ERROR;
+    }
+    if (token.type === 'number') {
+      if (pending !== null || (sectionHasContent && !sectionHasSmallUnit)) {
+        return MALFORMED_KANJI_ERROR;
+      }
+      if (!/^\d+(\.\d+)?$/.test(token.text)) {
+        return MALFORMED_KANJI_ERROR;
+      }
+      pending = {
+        value: toScaledDecimal(token.text),
+        isSingleDigit: token.text.length === 1,
+        isDecimal: token.text.includes('.'),
+      };
+    } else if (token.type === 'small') {
+      if (token.exponent >= lastSmallExponent) {
+        return MALFORMED_KANJI_ERROR;
+      }
+      // 「百」のように係数がない場合は 1 とみなす。「二三百」「25百」は曖昧なのでエラー
+      if (pending !== null && !pending.isSingleDigit && !pending.isDecimal) {
+        return AMBIGUOUS_KANJI_ERROR;
+      }
+      const coefficient = pending?.value ?? { digits: 1n, scale: 0 };
+      section = addScaled(section, shiftScaled(coefficient, token.exponent));
+      decimalConsumed = pending?.isDecimal ?? false;
+      sectionHasContent = true;
+      sectionHasSmallUnit = true;
+      lastSmallExponent = token.exponent;
+      pending = null;
+    } else {
+      if (token.exponent >= lastLargeExponent) {
+        return MALFORMED_KANJI_ERROR;
+      }
+      if (pending !== null) {
+        // 「千25万」のように位の後に複数桁が続くのは曖昧
+        if (sectionHasSmallUnit && !pending.isSingleDigit) {
+          return AMBIGUOUS_KANJI_ERROR;
+        }
+        section = addScaled(section, pending.value);
+        decimalConsumed = decimalConsumed || pending.isDecimal;
+        sectionHasContent = true;
+      }
+      // 「万」単独や「億万」のように係数のない大きい位はエラー
+      if (!sectionHasContent) {
+        return MALFORMED_KANJI_ERROR;
+      }
+      total = addScaled(total, shiftScaled(section, token.exponent));
+      section = { digits: 0n, scale: 0 };
+      sectionHasContent = false;
+      sectionHasSmallUnit = false;
+      lastSmallExponent = Infinity;
+      lastLargeExponent = token.exponent;
+      pending = null;
+    }
+  }
+
+  if (pending !== null) {
+    if (sectionHasSmallUnit && !pending.isSingleDigit) {
+      return AMBIGUOUS_KANJI_ERROR;
+    }
+    section = addScaled(section, pending.value);
+  }
+  total = addScaled(total, section);
+
+  const value = scaledToString(total);
+  return { ok: true, value: value === '0' ? value : sign + value };
+};
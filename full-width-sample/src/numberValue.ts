@@ -0,0 +1,70 @@
+// FullWidthNumberField が親に通知する値の型変換
+import { parseDecimal } from './decimal';
+
+/**
+ * onValueChange / onValueCommit に渡す値の型。
+ * - 'string': 半角に正規化した入力文字列をそのまま渡す (入力途中の "-" や "." も含む)
+ * - 'number': number に変換して渡す (2^53 を超える値は精度が失われます)
+ * - 'bigint': bigint に変換して渡す (小数部を持つ値は null)
+ * - 'decimal-string': "1234.5" のような正規形の10進数文字列を渡す (桁落ちなし)
+ */
+export type NumberValueType = 'string' | 'number' | 'bigint' | 'decimal-string';
+
+/**
+ * valueType に対応する値の型。
+ */
+export type NumberValueOf<T extends NumberValueType> =
+  T extends 'number' ? number : T extends 'bigint' ? bigint : string;
+
+/**
+ * onValueChange に渡される値の型。
+ * 'string' 以外では、未入力・入力途中・数値として不正な値は null になります。
+ */
+export type NumberFieldValue<T extends NumberValueType> =
+  T extends 'string' ? string : NumberValueOf<T> | null;
+
+/**
+ * FullWidthNumberRangeField が通知する範囲の値。
+ * 未入力の側は上限・下限なしを表します ('string' の場合は空文字列、それ以外は null)。
+ */
+export interface NumberRangeValue<T extends NumberValueType> {
+  from: NumberFieldValue<T>;
+  to: NumberFieldValue<T>;
+}
+
+// 正規化済みの入力値を正規形の10進数文字列に変換する関数
+// 先頭の0や末尾の小数点を除き、"-0" は "0" とする。数値として不完全な値は null を返す。
+export const toDecimalString = (value: string): string | null => {
+  const parts = parseDecimal(value);
+  if (parts === null) return null;
+  const fraction = parts.fraction.replace(/0+$/, '');
+  const unsigned = fraction !== '' ? `${parts.integer}.${fraction}` : parts.integer;
+  return parts.negative && unsigned !== '0' ? `-${unsigned}` : unsigned;
+};
+
+// 数値として完全な値を valueType の型に変換する関数。変換できない場合は null を返す。
+export const toNumberValue = <T extends NumberValueType>(
+  value: string,
+  valueType: T
+): NumberValueOf<T> | null => {
+  if (valueType === 'string') {
+    return (parseDecimal(value) !== null ? value : null) as NumberValueOf<T> | null;
+  }
+  const decimalString = toDecimalString(value);
+  if (decimalString === null) return null;
+  switch (valueType) {
+    case 'number':
+      return Number(decimalString) as NumberValueOf<T>;
+    case 'bigint':
+      return (decimalString.includes('.') ? null : BigInt(decimalString)) as NumberValueOf<T> | null;
+    default:
+      return decimalString as NumberValueOf<T>;
+  }
+};
+
+// onValueChange に渡す値に変換する関数 ('string' の場合は入力文字列をそのまま渡す)
+export const toFieldValue = <T extends NumberValueType>(
+  value: string,
+  valueType: T
+): NumberFieldValue<T> =>
+  (valueType === 'string' ? value : toNumberValue(value, valueType)) as NumberFieldValue<T>;
@@ -0,0 +1,73 @@
+// 郵便番号・電話番号の入力値を正規化する関数群 (全角→半角、ハイフンの自動挿入)
+
+// ハイフンとして扱う文字 (全角ハイフン、長音記号、ダッシュ類)
+const HYPHEN_CHARS = /[-－−‐‑‒–—―ーｰ﹣]/g;
+// 区切りとして無視する空白
+const SPACE_CHARS = /[\s\u3000]/g;
+
+// 全角英数字・記号を半角にそろえ、ハイフンの異体字を "-" にする
+export const toHalfWidthText = (input: string): string =>
+  input.normalize('NFKC').replace(HYPHEN_CHARS, '-');
+
+// 数字を指定した桁数ごとにハイフンで区切る (入力途中で桁数が足りない場合は、入力済みの部分だけ区切る)
+const groupDigits = (digits: string, sizes: number[]): string => {
+  const groups: string[] = [];
+  let start = 0;
+  sizes.forEach((size, index) => {
+    // 最後のグループには残りの数字をすべて入れる
+    const end = index === sizes.length - 1 ? digits.length : start + size;
+    if (start < digits.length) {
+      groups.push(digits.slice(start, end));
+    }
+    start = end;
+  });
+  return groups.join('-');
+};
+
+// 郵便番号を正規化する関数 ("〒１２３－４５６７" → "123-4567")
+// 郵便記号・空白・ハイフンを除いて数字のみの場合は、3桁目の後ろにハイフンを入れる。
+// 数字以外の文字が含まれる場合はそのまま残し、判定はバリデーションに任せる。
+export const normalizePostalCode = (input: string): string => {
+  const text = toHalfWidthText(input).replace(/^[〒〶]/, '').replace(SPACE_CHARS, '');
+  const digits = text.replace(/-/g, '');
+  return /^\d*$/.test(digits) ? groupDigits(digits, [3, 4]) : text;
+};
+
+// 正規化した郵便番号が完全な形式 ("123-4567") であれば返し、そうでなければ null を返す
+export const parsePostalCode = (text: string): string | null =>
+  /^\d{3}-\d{4}$/.test(text) ? text : null;
+
+// 電話番号の区切り方 (先頭の番号ごとの桁数)
+// 市外局番の桁数は地域によって異なるため、ここでは代表的な番号のみ区別し、それ以外は3-3-4とする。
+const PHONE_NUMBER_PATTERNS: ReadonlyArray<{ prefix: RegExp; sizes: number[]; length: number }> = [
+  { prefix: /^0120/, sizes: [4, 3, 3], length: 10 }, // フリーダイヤル
+  { prefix: /^0800/, sizes: [4, 3, 4], length: 11 },
+  { prefix: /^0[5789]0/, sizes: [3, 4, 4], length: 11 }, // 携帯電話・IP電話
+  { prefix: /^0[36]/, sizes: [2, 4, 4], length: 10 }, // 東京・大阪
+  { prefix: /^0/, sizes: [3, 3, 4], length: 10 },
+];
+
+const findPhoneNumberPattern = (digits: string) =>
+  PHONE_NUMBER_PATTERNS.find((pattern) => pattern.prefix.test(digits));
+
+// 電話番号の数字だけを取り出す (国番号 +81 は先頭の0に置き換える)
+const toPhoneNumberDigits = (text: string): string =>
+  text.replace(/[-()]/g, '').replace(/^\+81/, '0');
+
+// 電話番号を正規化する関数 ("０９０（１２３４）５６７８" → "090-1234-5678")
+// 空白・ハイフン・括弧を除いて数字のみの場合は、番号の種類に応じてハイフンで区切る。
+// 数字以外の文字が含まれる場合はそのまま残し、判定はバリデーションに任せる。
+export const normalizePhoneNumber = (input: string): string => {
+  const text = toHalfWidthText(input).replace(SPACE_CHARS, '');
+  const digits = toPhoneNumberDigits(text);
+  if (!/^\d*$/.test(digits)) return text;
+  const pattern = findPhoneNumberPattern(digits);
+  return pattern ? groupDigits(digits, pattern.sizes) : digits;
+};
+
+// 正規化した電話番号が完全な桁数であれば返し、そうでなければ null を返す
+export const parsePhoneNumber = (text: string): string | null => {
+  const digits = toPhoneNumberDigits(text);
+  const pattern = findPhoneNumberPattern(digits);
+  return pattern && /^\d+$/.test(digits) && digits.length === pattern.length ? groupDigits(digits, pattern.sizes) : null;
+};
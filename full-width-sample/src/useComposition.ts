@@ -0,0 +1,34 @@
+import React, { useCallback, useRef } from 'react';
+
+type TextInputChangeEvent = React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>;
+
+interface CompositionHandlerOptions {
+  /** 変換を始めたときの処理 (変換前の値の保存など) */
+  onStart?: () => void;
+  /** 変換が確定したときの処理。確定した文字列を含むイベントを onChange と同じ形で受け取る */
+  onCommit: (event: TextInputChangeEvent) => void;
+}
+
+// IMEのcomposition（変換中）状態を追跡するフック
+// 変換中は isComposing.current が true になり、入力欄は未確定文字列をそのまま保持する。
+// 変換が確定したら、確定後の文字列で onChange と同じ処理 (正規化・バリデーション・通知) をやり直す。
+export const useComposition = () => {
+  const isComposing = useRef(false);
+
+  // TextField に渡す onCompositionStart / onCompositionEnd を作る
+  const getCompositionHandlers = useCallback(({ onStart, onCommit }: CompositionHandlerOptions) => ({
+    onCompositionStart: () => {
+      isComposing.current = true;
+      if (onStart) {
+        onStart();
+      }
+    },
+    onCompositionEnd: (event: React.CompositionEvent<HTMLDivElement>) => {
+      isComposing.current = false;
+      // この時、event.target.value はIMEによって確定された最終的な文字列になっている
+      onCommit(event as unknown as TextInputChangeEvent);
+    },
+  }), []);
+
+  return { isComposing, getCompositionHandlers };
+};
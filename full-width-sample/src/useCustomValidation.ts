@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { NumberFieldMessages } from './messages';
+import type { NumberFieldValidator, NumberFieldValidity } from './validators';
+import { parseDecimal } from './decimal';
+
+interface UseCustomValidationOptions {
+  validators?: NumberFieldValidator[];
+  messages: NumberFieldMessages;
+  allowDecimal: boolean;
+  /** 検証状態が変わったときに呼び出されるコールバック */
+  onValidityChange?: (validity: NumberFieldValidity) => void;
+  /** 独自のバリデーションの結果 (エラーメッセージの一覧) をフィールドの表示に反映するコールバック */
+  onResult: (reasons: string[]) => void;
+}
+
+// 独自のバリデーション (validators) を実行するフック
+// 実行はデバウンスされ、新しい値で実行し直した場合は前回の実行を中断して結果を破棄する。
+export const useCustomValidation = ({
+  validators,
+  messages,
+  allowDecimal,
+  onValidityChange,
+  onResult,
+}: UseCustomValidationOptions) => {
+  // 実行中 (デバウンス待ちを含む) のバリデーション
+  const currentRun = useRef<{ controller: AbortController; timer?: ReturnType<typeof setTimeout> } | null>(null);
+  // 最後に通知した検証状態 (同じ状態を繰り返し通知しないため)
+  const lastValidityKey = useRef<string | null>(null);
+
+  const reportValidity = useCallback((validity: NumberFieldValidity) => {
+    const key = `${validity.status}:${validity.reasons.join('\n')}`;
+    if (key === lastValidityKey.current) return;
+    lastValidityKey.current = key;
+    if (onValidityChange) {
+      onValidityChange(validity);
+    }
+  }, [onValidityChange]);
+
+  const cancelValidation = useCallback(() => {
+    if (currentRun.current) {
+      clearTimeout(currentRun.current.timer);
+      currentRun.current.controller.abort();
+      currentRun.current = null;
+    }
+  }, []);
+
+  // 実行中のバリデーションを中断し、エラーのない状態に戻す (値のリセット時)
+  const resetValidation = useCallback(() => {
+    cancelValidation();
+    reportValidity({ status: 'valid', reasons: [] });
+  }, [cancelValidation, reportValidity]);
+
+  // アンマウント時に実行中のバリデーションを中断する
+  useEffect(() => cancelValidation, [cancelValidation]);
+
+  // builtInError には組み込みのバリデーションのエラーメッセージ (なければ null) を渡す。
+  // 組み込みのバリデーションでエラーの場合や、値が入力途中の場合は独自のバリデーションを実行しない。
+  // 戻り値の Promise は検証状態で解決する (より新しい値で実行し直された場合は 'pending' で解決する)。
+  const runValidation = useCallback((
+    value: string,
+    builtInError: string | null,
+    debounceMs: number
+  ): Promise<NumberFieldValidity> => {
+    cancelValidation();
+    if (builtInError !== null) {
+      const validity: NumberFieldValidity = { status: 'invalid', reasons: [builtInError] };
+      reportValidity(validity);
+      return Promise.resolve(validity);
+    }
+    if (!validators || validators.length === 0 || parseDecimal(value) === null) {
+      const validity: NumberFieldValidity = { status: 'valid', reasons: [] };
+      reportValidity(validity);
+      return Promise.resolve(validity);
+    }
+
+    const controller = new AbortController();
+    let resolveValidity: (validity: NumberFieldValidity) => void = () => {};
+    const result = new Promise<NumberFieldValidity>((resolve) => { resolveValidity = resolve; });
+    controller.signal.addEventListener('abort', () => resolveValidity({ status: 'pending', reasons: [] }));
+    const run = async () => {
+      const context = { signal: controller.signal, messages, allowDecimal };
+      const results = await Promise.all(validators.map(async (validator) => {
+        try {
+          return await validator(value, context);
+        } catch {
+          // 中断による失敗は無視し、それ以外は検証できなかったものとして扱う
+          return controller.signal.aborted ? null : messages.validatorFailed({ value, allowDecimal });
+        }
+      }));
+      // より新しい値で実行し直された場合、この結果は破棄する
+      if (controller.signal.aborted) return;
+      currentRun.current = null;
+      const reasons = results.filter((result): result is string => typeof result === 'string' && result !== '');
+      onResult(reasons);
+      const validity: NumberFieldValidity = reasons.length > 0 ? { status: 'invalid', reasons } : { status: 'valid', reasons: [] };
+      reportValidity(validity);
+      resolveValidity(validity);
+    };
+
+    reportValidity({ status: 'pending', reasons: [] });
+    currentRun.current = { controller };
+    if (debounceMs > 0) {
+      currentRun.current.timer = setTimeout(() => { void run(); }, debounceMs);
+    } else {
+      void run();
+    }
+    return result;
+  }, [validators, messages, allowDecimal, cancelValidation, reportValidity, onResult]);
+
+  return { runValidation, cancelValidation, resetValidation };
+};
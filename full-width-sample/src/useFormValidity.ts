@@ -0,0 +1,46 @@
+import { useCallback, useRef } from 'react';
+import type { NumberFieldValidity } from './validators';
+import type { FullWidthNumberFieldHandle } from './FullWidthInputField';
+
+// フォームライブラリのアダプターで、FullWidthNumberField の検証状態 (組み込みと独自のバリデーション) を
+// フォームのバリデーションから参照できるようにするフック
+export const useFormValidity = (onValidityChange?: (validity: NumberFieldValidity) => void) => {
+  // フィールドから最後に通知された検証状態 (まだ通知されていない場合は null)
+  const latestValidity = useRef<NumberFieldValidity | null>(null);
+  // フィールドの操作用の参照 (未操作のフィールドを送信時に検証するため)
+  const fieldHandle = useRef<Pick<FullWidthNumberFieldHandle, 'validate'> | null>(null);
+  // 結果待ち ('pending') の間にフォームから問い合わせがあった場合、結果が出たときに解決する
+  const pendingResolvers = useRef<Array<(validity: NumberFieldValidity) => void>>([]);
+
+  // FullWidthNumberField の onValidityChange に渡すコールバック
+  const handleValidityChange = useCallback((validity: NumberFieldValidity) => {
+    latestValidity.current = validity;
+    if (validity.status !== 'pending') {
+      pendingResolvers.current.splice(0).forEach((resolve) => resolve(validity));
+    }
+    if (onValidityChange) {
+      onValidityChange(validity);
+    }
+  }, [onValidityChange]);
+
+  // FullWidthNumberField の ref に渡すコールバック
+  const setFieldHandle = useCallback((handle: Pick<FullWidthNumberFieldHandle, 'validate'> | null) => {
+    fieldHandle.current = handle;
+  }, []);
+
+  // フォームのバリデーションから呼び出し、エラーメッセージ (エラーがなければ undefined) を返す
+  // フィールドがまだ検証状態を通知していない (一度も操作されていない) 場合は、フィールドに検証させる。
+  // 独自のバリデーションの結果待ちの場合は、結果が出るまで待つ。
+  const getValidationError = useCallback(async (): Promise<string | undefined> => {
+    let validity = latestValidity.current;
+    if (validity === null && fieldHandle.current) {
+      validity = await fieldHandle.current.validate();
+    }
+    if (validity?.status === 'pending') {
+      validity = await new Promise<NumberFieldValidity>((resolve) => { pendingResolvers.current.push(resolve); });
+    }
+    return validity?.status === 'invalid' ? validity.reasons[0] : undefined;
+  }, []);
+
+  return { handleValidityChange, setFieldHandle, getValidationError };
+};
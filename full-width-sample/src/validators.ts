@@ -0,0 +1,80 @@
+// FullWidthNumberField の validators に渡す独自バリデーションの型と、よく使うルールの生成関数
+import type { NumberFieldMessages } from './messages';
+import { compareDecimal, isMultipleOfDecimal } from './decimal';
+import { normalizeAndRemoveCommas } from './numberNormalizer';
+
+/**
+ * バリデーション関数に渡される付加情報。
+ */
+export interface NumberFieldValidatorContext {
+  /** 新しい入力で結果が不要になった場合に中断されるシグナル (fetch などに渡す) */
+  signal: AbortSignal;
+  /** フィールドで使われているメッセージ */
+  messages: NumberFieldMessages;
+  allowDecimal: boolean;
+}
+
+/**
+ * エラーメッセージ。問題がない場合は null または undefined。
+ */
+export type NumberFieldValidationResult = string | null | undefined;
+
+/**
+ * 独自のバリデーション関数。
+ * 値は半角に正規化済みで、組み込みのバリデーション (必須、形式、桁数、範囲) を通過した数値の文字列です。
+ * 同期的に結果を返すか、非同期の場合は Promise を返します。
+ */
+export type NumberFieldValidator = (
+  value: string,
+  context: NumberFieldValidatorContext
+) => NumberFieldValidationResult | Promise<NumberFieldValidationResult>;
+
+/**
+ * 組み込みと独自のバリデーションを合わせた検証状態。
+ * - 'pending': 独自のバリデーションの結果待ち
+ * - 'valid': エラーなし
+ * - 'invalid': エラーあり (reasons にメッセージ)
+ */
+export interface NumberFieldValidity {
+  status: 'pending' | 'valid' | 'invalid';
+  reasons: string[];
+}
+
+// step の整数倍 (base を起点) であることを検証するルール (例: 100個単位)
+export const createStepValidator = (
+  step: number | string,
+  base: number | string = 0
+): NumberFieldValidator => (value, { messages, allowDecimal }) =>
+  isMultipleOfDecimal(value, normalizeAndRemoveCommas(step), normalizeAndRemoveCommas(base))
+    ? null
+    : messages.stepMismatch({ value, allowDecimal, step });
+
+// 指定した値を入力できないようにするルール
+export const createExcludedValuesValidator = (
+  excludedValues: ReadonlyArray<number | string>
+): NumberFieldValidator => (value, { messages, allowDecimal }) =>
+  excludedValues.some((excluded) => compareDecimal(value, normalizeAndRemoveCommas(excluded)) === 0)
+    ? messages.excludedValue({ value, allowDecimal })
+    : null;
+
+// 別フィールドの値以下であることを検証するルール
+// 別フィールドが未入力・入力途中の場合は検証しない。
+export const createLessThanOrEqualValidator = (
+  other: number | string | null | undefined,
+  otherLabel?: string
+): NumberFieldValidator => (value, { messages, allowDecimal }) => {
+  if (other === null || other === undefined) return null;
+  const comparison = compareDecimal(value, normalizeAndRemoveCommas(other));
+  return comparison > 0 ? messages.aboveOther({ value, allowDecimal, other, otherLabel }) : null;
+};
+
+// 別フィールドの値以上であることを検証するルール
+// 別フィールドが未入力・入力途中の場合は検証しない。
+export const createGreaterThanOrEqualValidator = (
+  other: number | string | null | undefined,
+  otherLabel?: string
+): NumberFieldValidator => (value, { messages, allowDecimal }) => {
+  if (other === null || other === undefined) return null;
+  const comparison = compareDecimal(value, normalizeAndRemoveCommas(other));
+  return comparison < 0 ? messages.belowOther({ value, allowDecimal, other, otherLabel }) : null;
+};
@@ -0,0 +1,14 @@
+import type React from 'react';
+
+// 画面上には表示せず、スクリーンリーダーには読み上げさせる要素のスタイル (ライブリージョンなど)
+export const VISUALLY_HIDDEN_STYLE: React.CSSProperties = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  margin: -1,
+  padding: 0,
+  border: 0,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap',
+};